@@ -1,3 +1,74 @@
 SUPABASE_URL=your-supabase-url
 SUPABASE_SERVICE_KEY=your-supabase-service-key
-PORT=3000
\ No newline at end of file
+PORT=3000
+# LLM provider for report generation: 'fake' (deterministic, offline) or 'openrouter'
+LLM_PROVIDER=fake
+OPENROUTER_API_KEY=
+OPENROUTER_MODEL=openai/gpt-4o-mini
+OPENROUTER_BASE_URL=https://openrouter.ai/api/v1
+LLM_TIMEOUT_MS=60000
+APP_URL=http://localhost:4200
+
+# Access token verification (local signature check): HS256 secret of the project, or
+# leave empty to verify against SUPABASE_URL/auth/v1/.well-known/jwks.json (asymmetric keys)
+SUPABASE_JWT_SECRET=
+# Optional: confirm sessions with Supabase Auth so sign-out takes effect before token expiry
+AUTH_REVOCATION_CHECK=false
+# How long confirmed sessions and confirmed email addresses are trusted without asking again
+AUTH_REVOCATION_CACHE_SECONDS=60
+
+# Password reset / verification emails: per-address throttling (links return to APP_URL)
+AUTH_EMAIL_MIN_INTERVAL_SECONDS=60
+AUTH_EMAIL_MAX_PER_HOUR=5
+
+# Development auth (local Supabase only, refused in production): requests with
+# X-Dev-Auth-Secret act as fixture users (X-Dev-User: alice | bob | unverified)
+DEV_AUTH_ENABLED=false
+DEV_AUTH_SECRET=
+DEV_AUTH_DEFAULT_USER=alice
+
+# Weekly report prompt versions (see src/config/system-prompt.ts)
+REPORT_PROMPT_VERSION=v1.0
+REPORT_PROMPT_CANDIDATE_VERSION=
+REPORT_PROMPT_CANDIDATE_PERCENT=0
+
+# Run background jobs (weekly reports, retention, email deliveries, stale report jobs) inside
+# the API process
+ENABLE_SCHEDULER=false
+
+# Data retention cleanup (runs daily at 02:00 UTC when the scheduler is enabled)
+RETENTION_MONTHS=6
+RETENTION_BATCH_SIZE=200
+
+# Report PDFs: storage backend ('local' or 'memory') and directory of the local backend
+REPORT_STORAGE=local
+REPORT_ARTIFACTS_DIR=./storage/reports
+
+# Maximum number of on-demand report jobs generating at once
+REPORT_JOB_CONCURRENCY=2
+# Running report jobs not finished this long after being claimed are failed as interrupted
+REPORT_JOB_STALE_MINUTES=15
+
+# Email delivery: 'smtp', 'file' (writes .eml files to MAIL_CAPTURE_DIR) or 'memory'
+MAIL_TRANSPORT=file
+MAIL_FROM=LifeSync <no-reply@lifesync.local>
+MAIL_CAPTURE_DIR=./storage/mail
+SMTP_HOST=
+SMTP_PORT=587
+SMTP_SECURE=false
+SMTP_USER=
+SMTP_PASSWORD=
+EMAIL_DELIVERY_BATCH_SIZE=50
+EMAIL_DELIVERY_MAX_ATTEMPTS=5
+EMAIL_DELIVERY_RETRY_BASE_MS=60000
+
+# Unsubscribe links in emails: HMAC key for signed tokens (at least 32 characters) and the
+# public API origin used in List-Unsubscribe headers (the body link points to APP_URL/unsubscribe)
+EMAIL_TOKEN_SECRET=change-me-to-a-random-string-of-32-chars
+PUBLIC_API_URL=http://localhost:3000
+
+# Dashboard cache: lifetime of cached dashboards per user (invalidated on note changes)
+DASHBOARD_CACHE_TTL_SECONDS=300
+
+# Analytics events not matching the event schema registry: 'reject' (400) or 'quarantine'
+ANALYTICS_INVALID_EVENTS=reject
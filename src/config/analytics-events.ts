@@ -0,0 +1,146 @@
+import { z } from 'zod';
+import type { AnalyticsEventSchema } from '../services/analytics-schema-registry.service.js';
+
+/**
+ * Known analytics events and the shape of their properties per schema_version
+ *
+ * Sent by the web client (source 'web') or recorded by the API from domain events
+ * (source 'api'); names of API events are reserved and refused from the client, so
+ * server-side analytics cannot be forged. Released versions are immutable: events already
+ * stored reference them.
+ * To change an event, append a version with an `upgrade` from the previous one, e.g.
+ *
+ *   { name: 'report_viewed', version: 2, source: 'web', ..., upgrade: ({ via, ...rest }) => ({ ...rest, surface: via }) }
+ *
+ * Property schemas are strict, so unexpected (possibly personal) fields are rejected
+ */
+
+const uuid = z.string().uuid();
+
+const deliveryProperties = z
+  .object({
+    delivery_id: uuid,
+    report_id: uuid,
+    channel: z.enum(['in_app', 'email']),
+    status: z.string().optional(),
+    requeued: z.boolean().optional(),
+  })
+  .strict();
+
+export const ANALYTICS_EVENT_SCHEMAS: AnalyticsEventSchema[] = [
+  {
+    name: 'note_created',
+    version: 1,
+    source: 'api',
+    description: 'A note was created',
+    properties: z.object({ category_id: uuid, note_id: uuid.optional() }).strict(),
+  },
+  {
+    name: 'note_updated',
+    version: 1,
+    source: 'api',
+    description: 'A note was edited',
+    properties: z
+      .object({
+        note_id: uuid,
+        category_id: uuid.optional(),
+        changed_fields: z.array(z.enum(['category_id', 'title', 'content'])).optional(),
+      })
+      .strict(),
+  },
+  {
+    name: 'note_deleted',
+    version: 1,
+    source: 'api',
+    description: 'A note was deleted',
+    properties: z.object({ note_id: uuid }).strict(),
+  },
+  {
+    name: 'report_generated',
+    version: 1,
+    source: 'api',
+    description: 'A report was generated (scheduled or on demand)',
+    properties: z
+      .object({
+        report_id: uuid,
+        generated_by: z.enum(['scheduled', 'on_demand']),
+        category_ids: z.array(uuid).optional(),
+        llm_model: z.string().nullable().optional(),
+        system_prompt_version: z.string().nullable().optional(),
+      })
+      .strict(),
+  },
+  {
+    name: 'report_viewed',
+    version: 1,
+    source: 'web',
+    description: 'A report was opened in the app',
+    properties: z
+      .object({ report_id: uuid, via: z.enum(['inbox', 'list', 'email', 'dashboard']).optional() })
+      .strict(),
+  },
+  {
+    name: 'report_deleted',
+    version: 1,
+    source: 'api',
+    description: 'A report was deleted',
+    properties: z.object({ report_id: uuid }).strict(),
+  },
+  {
+    name: 'delivery_queued',
+    version: 1,
+    source: 'api',
+    description: 'A report delivery was queued (or re-queued)',
+    properties: deliveryProperties,
+  },
+  {
+    name: 'delivery_sent',
+    version: 1,
+    source: 'api',
+    description: 'A report email was sent',
+    properties: deliveryProperties,
+  },
+  {
+    name: 'delivery_opened',
+    version: 1,
+    source: 'api',
+    description: 'A delivered report was opened',
+    properties: deliveryProperties,
+  },
+  {
+    name: 'delivery_failed',
+    version: 1,
+    source: 'api',
+    description: 'A report email failed or bounced',
+    properties: deliveryProperties,
+  },
+  {
+    name: 'feedback_submitted',
+    version: 1,
+    source: 'api',
+    description: 'Feedback on a report was submitted or changed',
+    properties: z
+      .object({
+        report_id: uuid,
+        feedback_id: uuid.optional(),
+        rating: z.union([z.literal(-1), z.literal(0), z.literal(1)]),
+        has_comment: z.boolean().optional(),
+        updated: z.boolean().optional(),
+      })
+      .strict(),
+  },
+  {
+    name: 'limit_exceeded',
+    version: 1,
+    source: 'api',
+    description: 'A request was refused by the daily note or weekly report limit',
+    properties: z
+      .object({
+        limit: z.enum(['daily_notes', 'weekly_reports']),
+        max: z.number().int(),
+        category_id: uuid.optional(),
+        week_start: z.string().optional(),
+      })
+      .strict(),
+  },
+];
@@ -0,0 +1,21 @@
+/**
+ * Public origins used in links the API sends out (e.g. in report emails)
+ */
+export type PublicUrls = {
+  /** Origin of this API, without trailing slash */
+  apiUrl: string;
+  /** Origin of the web app, without trailing slash */
+  appUrl: string;
+};
+
+/**
+ * Environment:
+ * - PUBLIC_API_URL: public origin of this API (default: http://localhost:PORT)
+ * - APP_URL: web app origin (default: the API origin)
+ */
+export function publicUrlsFromEnv(env: NodeJS.ProcessEnv = process.env): PublicUrls {
+  const apiUrl = (env.PUBLIC_API_URL || `http://localhost:${env.PORT || 3000}`).replace(/\/$/, '');
+  const appUrl = (env.APP_URL || apiUrl).replace(/\/$/, '');
+
+  return { apiUrl, appUrl };
+}
@@ -0,0 +1,81 @@
+import type { PromptTemplate } from '../services/prompt-registry.service.js';
+
+/**
+ * Version-controlled system prompts for weekly report generation
+ *
+ * Templates are immutable once released: reports.system_prompt_version points at them,
+ * so changing a prompt means adding a new version here, never editing an existing one
+ */
+export const REPORT_PROMPT_NAME = 'weekly-report';
+
+const REPORT_USER_TEMPLATE = `Timezone: {{timezone}}
+Week: {{week_start}} to {{week_end}}
+
+Categories (JSON):
+{{categories}}
+
+Notes (JSON, newest first):
+{{notes}}`;
+
+const REPORT_PROMPT_VARIABLES = ['timezone', 'week_start', 'week_end', 'categories', 'notes'];
+
+const REPORT_SYSTEM_V1_0 = `You are LifeSync, a supportive reflection assistant.
+You receive a user's notes from the past week, grouped into life categories
+(such as Family, Friends, Pets, Body, Mind, Passions).
+
+Write a short weekly reflection that:
+- summarises the week in 2-4 sentences, in a warm and non-judgemental tone,
+- gives a 1-3 sentence summary for every category provided (even when it has no notes),
+- proposes 2-4 concrete, small recommendations for the coming week.
+
+Only use information contained in the notes. Do not invent events.
+Respond with a single JSON object and nothing else, using exactly this shape:
+{
+  "summary": string,
+  "categories": [{ "category_id": string, "name": string, "summary": string }],
+  "recommendations": string[]
+}`;
+
+export const REPORT_PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    name: REPORT_PROMPT_NAME,
+    version: 'v1.0',
+    description: 'Initial weekly reflection prompt',
+    // The whole report input as one JSON object ({ timezone, week, categories, notes })
+    variables: ['input'],
+    user: '{{input}}',
+    system: REPORT_SYSTEM_V1_0,
+  },
+  {
+    name: REPORT_PROMPT_NAME,
+    version: 'v1.1',
+    description: 'Balance-focused variant: highlights neglected categories first',
+    variables: REPORT_PROMPT_VARIABLES,
+    user: REPORT_USER_TEMPLATE,
+    system: `You are LifeSync, a supportive reflection assistant helping the user keep their life in balance.
+You receive a user's notes from the past week in their local timezone, grouped into life categories.
+
+Write a short weekly reflection that:
+- opens with a 2-3 sentence summary of the week, naming the category that received the most attention,
+- gives a 1-3 sentence summary for every category provided; for categories without notes,
+  gently point out that they were quiet this week,
+- proposes 2-4 concrete recommendations, prioritising the quietest categories.
+  Each recommendation must be achievable in under 30 minutes.
+
+Only use information contained in the notes. Do not invent events or diagnose anything.
+Respond with a single JSON object and nothing else, using exactly this shape:
+{
+  "summary": string,
+  "categories": [{ "category_id": string, "name": string, "summary": string }],
+  "recommendations": string[]
+}`,
+  },
+  {
+    name: REPORT_PROMPT_NAME,
+    version: 'v1.2',
+    description: 'Initial weekly reflection prompt with a plain-text user message',
+    variables: REPORT_PROMPT_VARIABLES,
+    user: REPORT_USER_TEMPLATE,
+    system: REPORT_SYSTEM_V1_0,
+  },
+];
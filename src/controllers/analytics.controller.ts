@@ -0,0 +1,201 @@
+import { Request, Response, NextFunction } from 'express';
+import { createClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+import {
+  RecordAnalyticsEventCommandSchema,
+  RecordAnalyticsEventsBatchCommandSchema,
+  ListAnalyticsEventsQuerySchema,
+} from '../validation/analytics.js';
+import type { Database } from '../db/database.types.js';
+import { AnalyticsService, InvalidAnalyticsEventsError } from '../services/analytics.service.js';
+import type {
+  AnalyticsEventResponseDto,
+  AnalyticsEventsBatchResponseDto,
+  ErrorResponseDto,
+} from '../types.js';
+
+const supabaseUrl = process.env.SUPABASE_URL as string;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_KEY as string;
+
+if (!supabaseUrl || !supabaseServiceKey) {
+  throw new Error('Missing Supabase environment variables');
+}
+
+/**
+ * Build the 400 response for a ZodError
+ */
+function validationErrorResponse(error: z.ZodError, message: string): ErrorResponseDto {
+  return {
+    error: {
+      code: 'VALIDATION_ERROR',
+      message,
+      details: Object.fromEntries(error.errors.map((err) => [err.path.join('.'), err.message])),
+    },
+  };
+}
+
+/**
+ * POST /api/analytics/events
+ * Records analytics events of the authenticated user
+ *
+ * Request Body (either):
+ * - a single event: { event_name, source?, schema_version?, properties? }
+ *   (source can only be 'web'; server-recorded events use 'api')
+ * - a batch: { events: [event, ...] } with up to MAX_ANALYTICS_BATCH_SIZE events,
+ *   stored all or nothing
+ *
+ * Events must match the analytics schema registry (known event_name and schema_version,
+ * properties matching that version). Invalid events are rejected, or quarantined when
+ * ANALYTICS_INVALID_EVENTS=quarantine; events reserved for the API (note_created,
+ * report_generated, ...) are always rejected
+ *
+ * Success Response:
+ * - 201 Created: { id } for a single event, { ids, quarantined } (in request order, null ids
+ *   for quarantined events) for a batch
+ * - 202 Accepted: nothing was recorded because every event was quarantined
+ *
+ * Error Responses:
+ * - 400: VALIDATION_ERROR / INVALID_ANALYTICS_EVENT (field paths of batch events are
+ *   prefixed with events.<index>)
+ * - 401: Missing/invalid authentication
+ * - 500: Server error
+ */
+export const recordAnalyticsEventsHandler = async (
+  req: Request,
+  res: Response,
+  _next: NextFunction
+): Promise<void> => {
+  try {
+    // 1. Ensure authenticated
+    if (!req.auth) {
+      const errorResponse: ErrorResponseDto = {
+        error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+      };
+      res.status(401).json(errorResponse);
+      return;
+    }
+
+    // 2. Validate request body (batch when it carries an events property)
+    const isBatch = typeof req.body === 'object' && req.body !== null && 'events' in req.body;
+    let events;
+    try {
+      events = isBatch
+        ? RecordAnalyticsEventsBatchCommandSchema.parse(req.body).events
+        : [RecordAnalyticsEventCommandSchema.parse(req.body)];
+    } catch (validationError) {
+      if (validationError instanceof z.ZodError) {
+        res.status(400).json(validationErrorResponse(validationError, 'Invalid request body'));
+        return;
+      }
+      throw validationError;
+    }
+
+    // 3. Create user-scoped client with JWT for RLS enforcement
+    const userClient = createClient<Database>(supabaseUrl, req.auth.jwt);
+    const analyticsService = new AnalyticsService(userClient);
+
+    // 4. Check the events against the schema registry and store them for the user
+    const { ids, quarantined } = await analyticsService.recordEvents(req.auth.userId, events);
+    const status = quarantined === events.length ? 202 : 201;
+
+    if (isBatch) {
+      const response: AnalyticsEventsBatchResponseDto = { ids, quarantined };
+      res.status(status).json(response);
+    } else {
+      const response: AnalyticsEventResponseDto =
+        quarantined > 0 ? { id: null, quarantined: true } : { id: ids[0] };
+      res.status(status).json(response);
+    }
+  } catch (err) {
+    if (err instanceof InvalidAnalyticsEventsError) {
+      const isBatch = typeof req.body === 'object' && req.body !== null && 'events' in req.body;
+      const details = Object.fromEntries(
+        err.failures.flatMap(({ index, details: fields }) =>
+          Object.entries(fields).map(([path, message]) => [
+            isBatch ? `events.${index}.${path}` : path,
+            message,
+          ])
+        )
+      );
+      const errorResponse: ErrorResponseDto = {
+        error: {
+          code: 'INVALID_ANALYTICS_EVENT',
+          message: 'Events do not match the analytics event schema registry',
+          details,
+        },
+      };
+      res.status(400).json(errorResponse);
+      return;
+    }
+
+    console.error('recordAnalyticsEventsHandler error:', err);
+    const errorResponse: ErrorResponseDto = {
+      error: { code: 'SERVER_ERROR', message: 'An unexpected error occurred' },
+    };
+    res.status(500).json(errorResponse);
+  }
+};
+
+/**
+ * GET /api/analytics/events
+ * Lists analytics events of the authenticated user, newest first
+ *
+ * Query Parameters:
+ * - event_name: optional exact event name
+ * - from / to: optional ISO 8601 datetimes bounding created_at (inclusive)
+ * - limit: optional integer 1-100 (default: 20)
+ * - offset: optional integer >=0 (default: 0)
+ *
+ * Success Response:
+ * - 200 OK: AnalyticsEventsListResponseDto
+ *
+ * Error Responses:
+ * - 400: Query validation errors
+ * - 401: Missing/invalid authentication
+ * - 500: Server error
+ */
+export const listAnalyticsEventsHandler = async (
+  req: Request,
+  res: Response,
+  _next: NextFunction
+): Promise<void> => {
+  try {
+    // 1. Ensure authenticated
+    if (!req.auth) {
+      const errorResponse: ErrorResponseDto = {
+        error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+      };
+      res.status(401).json(errorResponse);
+      return;
+    }
+
+    // 2. Validate query parameters
+    let query;
+    try {
+      query = ListAnalyticsEventsQuerySchema.parse(req.query);
+    } catch (validationError) {
+      if (validationError instanceof z.ZodError) {
+        res
+          .status(400)
+          .json(validationErrorResponse(validationError, 'Invalid request parameters'));
+        return;
+      }
+      throw validationError;
+    }
+
+    // 3. Create user-scoped client with JWT for RLS enforcement
+    const userClient = createClient<Database>(supabaseUrl, req.auth.jwt);
+    const analyticsService = new AnalyticsService(userClient);
+
+    // 4. Fetch the filtered page of events
+    const result = await analyticsService.listEvents(req.auth.userId, query);
+
+    res.status(200).json(result);
+  } catch (err) {
+    console.error('listAnalyticsEventsHandler error:', err);
+    const errorResponse: ErrorResponseDto = {
+      error: { code: 'SERVER_ERROR', message: 'An unexpected error occurred' },
+    };
+    res.status(500).json(errorResponse);
+  }
+};
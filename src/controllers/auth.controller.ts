@@ -1,12 +1,51 @@
 import { Request, Response } from 'express';
 import { ZodError } from 'zod';
+import { isAuthApiError, isAuthWeakPasswordError } from '@supabase/supabase-js';
 import { UserContextService } from '../services/userContext.service.js';
-import { AuthService } from '../services/auth.service.js';
-import { SignInRequestSchema } from '../validation/auth.js';
+import {
+  AuthService,
+  EmailAlreadyRegisteredError,
+  InvalidRefreshTokenError,
+  InvalidResetTokenError,
+  ResetPasswordRejectedError,
+} from '../services/auth.service.js';
+import { EmailThrottledError } from '../services/email-throttle.service.js';
+import {
+  SignInRequestSchema,
+  SignUpRequestSchema,
+  SignOutRequestSchema,
+  RefreshSessionRequestSchema,
+  AccountEmailRequestSchema,
+  ResetPasswordRequestSchema,
+} from '../validation/auth.js';
+import type { AccountEmailResponseDto, SignOutResponseDto } from '../types.js';
+import { TimezoneSchema } from '../validation/profile.js';
 
 const userContextService = new UserContextService();
 const authService = new AuthService();
 
+/**
+ * Password rejected by the Supabase password policy (sign-up and admin updates report it
+ * differently)
+ */
+const isWeakPasswordError = (err: unknown): err is Error =>
+  isAuthWeakPasswordError(err) || (isAuthApiError(err) && err.code === 'weak_password');
+
+/**
+ * Send the response for a throttled account email request
+ */
+const sendEmailThrottled = (res: Response, err: EmailThrottledError) =>
+  res
+    .status(429)
+    .set('Retry-After', String(err.retryAfterSeconds))
+    .json({
+      error: {
+        code: 'TOO_MANY_REQUESTS',
+        message: 'Too many email requests for this address, try again later',
+        details: { retry_after_seconds: err.retryAfterSeconds },
+      },
+    });
+
 /**
  * Handler for POST /api/auth/sign-in
  * Authenticates a user with email and password
@@ -64,6 +103,295 @@ export const signInHandler = async (req: Request, res: Response) => {
   }
 };
 
+/**
+ * Handler for POST /api/auth/sign-up
+ * Registers a user with email and password and creates their profile and default preferences
+ * The profile timezone comes from the body, else from a valid Accept-Timezone header, else UTC
+ * Returns user info and JWT tokens (session is null while email confirmation is pending)
+ */
+export const signUpHandler = async (req: Request, res: Response) => {
+  try {
+    // Validate request body against schema
+    const request = SignUpRequestSchema.parse(req.body);
+
+    // Timezone hint sent by the client (ignored when not a supported timezone)
+    const timezoneHint = TimezoneSchema.safeParse(req.get('Accept-Timezone'));
+    const timezone = request.timezone ?? (timezoneHint.success ? timezoneHint.data : 'UTC');
+
+    // Register with Supabase and bootstrap profile and preferences
+    const response = await authService.signUp(request.email, request.password, timezone);
+
+    // Return 201 Created with sign-up response
+    return res.status(201).json(response);
+  } catch (err) {
+    // Handle Zod validation errors
+    if (err instanceof ZodError) {
+      const errorMessage = err.errors[0]?.message ?? 'Validation failed';
+      return res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: errorMessage,
+        },
+      });
+    }
+
+    // Password rejected by the Supabase password policy
+    if (isWeakPasswordError(err)) {
+      return res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: err.message,
+        },
+      });
+    }
+
+    if (err instanceof EmailAlreadyRegisteredError) {
+      return res.status(409).json({
+        error: {
+          code: 'EMAIL_ALREADY_REGISTERED',
+          message: 'Email address is already registered',
+        },
+      });
+    }
+
+    // Handle server errors
+    console.error('Sign-up handler error', err);
+    return res.status(500).json({
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Unexpected server error',
+      },
+    });
+  }
+};
+
+/**
+ * Handler for POST /api/auth/sign-out
+ * Revokes the Supabase session of the access token (or all the user's sessions with scope
+ * 'global'); the client discards its tokens
+ */
+export const signOutHandler = async (req: Request, res: Response) => {
+  try {
+    if (!req.auth) {
+      return res.status(401).json({ error: { code: 'JWT_INVALID', message: 'Unauthenticated' } });
+    }
+
+    // Body is optional
+    const request = SignOutRequestSchema.parse(req.body ?? {});
+
+    await authService.signOut(req.auth.jwt, request.scope);
+
+    const response: SignOutResponseDto = { message: 'Sign out successful' };
+    return res.status(200).json(response);
+  } catch (err) {
+    // Handle Zod validation errors
+    if (err instanceof ZodError) {
+      const errorMessage = err.errors[0]?.message ?? 'Validation failed';
+      return res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: errorMessage,
+        },
+      });
+    }
+
+    // Handle server errors
+    console.error('Sign-out handler error', err);
+    return res.status(500).json({
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Unexpected server error',
+      },
+    });
+  }
+};
+
+/**
+ * Handler for POST /api/auth/refresh
+ * Exchanges a refresh token for a new session (new access and refresh tokens)
+ */
+export const refreshSessionHandler = async (req: Request, res: Response) => {
+  try {
+    // Validate request body against schema
+    const request = RefreshSessionRequestSchema.parse(req.body);
+
+    const session = await authService.refreshSession(request.refresh_token);
+
+    return res.status(200).json(session);
+  } catch (err) {
+    // Handle Zod validation errors
+    if (err instanceof ZodError) {
+      const errorMessage = err.errors[0]?.message ?? 'Validation failed';
+      return res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: errorMessage,
+        },
+      });
+    }
+
+    if (err instanceof InvalidRefreshTokenError) {
+      return res.status(401).json({
+        error: {
+          code: 'INVALID_REFRESH_TOKEN',
+          message: 'Refresh token is invalid or expired',
+        },
+      });
+    }
+
+    // Handle server errors
+    console.error('Refresh handler error', err);
+    return res.status(500).json({
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Unexpected server error',
+      },
+    });
+  }
+};
+
+/**
+ * Handler for POST /api/auth/password/forgot
+ * Sends a password reset email if an account exists for the address
+ * Always answers 202 with the same message so the response does not reveal accounts
+ */
+export const forgotPasswordHandler = async (req: Request, res: Response) => {
+  try {
+    const request = AccountEmailRequestSchema.parse(req.body);
+
+    await authService.requestPasswordReset(request.email);
+
+    const response: AccountEmailResponseDto = {
+      message: 'If an account exists for this email, a password reset link has been sent',
+    };
+    return res.status(202).json(response);
+  } catch (err) {
+    // Handle Zod validation errors
+    if (err instanceof ZodError) {
+      const errorMessage = err.errors[0]?.message ?? 'Validation failed';
+      return res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: errorMessage,
+        },
+      });
+    }
+
+    if (err instanceof EmailThrottledError) {
+      return sendEmailThrottled(res, err);
+    }
+
+    // Handle server errors
+    console.error('Forgot password handler error', err);
+    return res.status(500).json({
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Unexpected server error',
+      },
+    });
+  }
+};
+
+/**
+ * Handler for POST /api/auth/password/reset
+ * Sets a new password using the token_hash from the password reset email
+ * and signs the user out everywhere
+ *
+ * The reset link is single-use and Supabase spends it before checking the password policy:
+ * a password failing the local rules (VALIDATION_ERROR) leaves the link usable, but one
+ * Supabase rejects (RESET_PASSWORD_REJECTED) means the user must request a new link
+ */
+export const resetPasswordHandler = async (req: Request, res: Response) => {
+  try {
+    const request = ResetPasswordRequestSchema.parse(req.body);
+
+    await authService.resetPassword(request.token_hash, request.password);
+
+    return res.status(200).json({ message: 'Password has been reset' });
+  } catch (err) {
+    // Handle Zod validation errors
+    if (err instanceof ZodError) {
+      const errorMessage = err.errors[0]?.message ?? 'Validation failed';
+      return res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: errorMessage,
+        },
+      });
+    }
+
+    // Password rejected by the Supabase password policy after the link was used up
+    if (err instanceof ResetPasswordRejectedError) {
+      return res.status(400).json({
+        error: {
+          code: 'RESET_PASSWORD_REJECTED',
+          message: `${err.reason}. This reset link has now been used, please request a new one`,
+        },
+      });
+    }
+
+    if (err instanceof InvalidResetTokenError) {
+      return res.status(400).json({
+        error: {
+          code: 'INVALID_RESET_TOKEN',
+          message: 'Password reset link is invalid or has expired',
+        },
+      });
+    }
+
+    // Handle server errors
+    console.error('Reset password handler error', err);
+    return res.status(500).json({
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Unexpected server error',
+      },
+    });
+  }
+};
+
+/**
+ * Handler for POST /api/auth/verification/resend
+ * Sends the sign-up verification email again if the address has an unconfirmed account
+ * Always answers 202 with the same message so the response does not reveal accounts
+ */
+export const resendVerificationHandler = async (req: Request, res: Response) => {
+  try {
+    const request = AccountEmailRequestSchema.parse(req.body);
+
+    await authService.resendVerification(request.email);
+
+    const response: AccountEmailResponseDto = {
+      message: 'If this email awaits verification, a new verification link has been sent',
+    };
+    return res.status(202).json(response);
+  } catch (err) {
+    // Handle Zod validation errors
+    if (err instanceof ZodError) {
+      const errorMessage = err.errors[0]?.message ?? 'Validation failed';
+      return res.status(400).json({
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: errorMessage,
+        },
+      });
+    }
+
+    if (err instanceof EmailThrottledError) {
+      return sendEmailThrottled(res, err);
+    }
+
+    // Handle server errors
+    console.error('Resend verification handler error', err);
+    return res.status(500).json({
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Unexpected server error',
+      },
+    });
+  }
+};
+
 export const getMeHandler = async (req: Request, res: Response) => {
   try {
     if (!req.auth) {
@@ -0,0 +1,237 @@
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import {
+  WeeklyRunCommandSchema,
+  RetentionCleanupCommandSchema,
+  ListRetentionRunsQuerySchema,
+} from '../validation/cron.js';
+import {
+  ScheduledReportsService,
+  WeeklyRunInProgressError,
+} from '../services/scheduled-reports.service.js';
+import { RetentionService, RetentionRunInProgressError } from '../services/retention.service.js';
+import { EmailDeliveryWorker } from '../services/email-delivery-worker.service.js';
+import type { ErrorResponseDto } from '../types.js';
+
+/**
+ * POST /internal/cron/reports/weekly-run
+ * Generate scheduled weekly reports (and their deliveries) for all users due now
+ *
+ * Request Body (optional):
+ * - now: ISO datetime to evaluate schedules against (default: current time)
+ *
+ * Success Response:
+ * - 202 Accepted: WeeklyReportRunResultDto summary of the run
+ *
+ * Error Responses:
+ * - 400: Validation error
+ * - 403: Missing/invalid service role credentials
+ * - 409: Another weekly run is still in progress
+ * - 500: Server error
+ */
+export const weeklyRunHandler = async (
+  req: Request,
+  res: Response,
+  _next: NextFunction
+): Promise<void> => {
+  try {
+    let validatedBody;
+    try {
+      validatedBody = WeeklyRunCommandSchema.parse(req.body ?? {});
+    } catch (validationError) {
+      if (validationError instanceof z.ZodError) {
+        const details = Object.fromEntries(
+          validationError.errors.map((err) => [err.path.join('.'), err.message])
+        );
+        const errorResponse: ErrorResponseDto = {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Request body validation failed',
+            details,
+          },
+        };
+        res.status(400).json(errorResponse);
+        return;
+      }
+      throw validationError;
+    }
+
+    const scheduledReportsService = new ScheduledReportsService();
+    const result = await scheduledReportsService.runWeekly(
+      validatedBody.now ? new Date(validatedBody.now) : new Date()
+    );
+
+    res.status(202).json(result);
+  } catch (err) {
+    if (err instanceof WeeklyRunInProgressError) {
+      const errorResponse: ErrorResponseDto = {
+        error: {
+          code: 'RUN_IN_PROGRESS',
+          message: 'A weekly report run is already in progress',
+        },
+      };
+      res.status(409).json(errorResponse);
+      return;
+    }
+
+    console.error('weeklyRunHandler error:', err);
+    const errorResponse: ErrorResponseDto = {
+      error: { code: 'SERVER_ERROR', message: 'An unexpected error occurred' },
+    };
+    res.status(500).json(errorResponse);
+  }
+};
+
+/**
+ * POST /internal/cron/retention/cleanup
+ * Hard-delete notes, reports, deliveries, feedback and analytics events older than the
+ * retention period (6 months), expired idempotency keys and report PDF files
+ *
+ * Request Body (optional):
+ * - dry_run: boolean (default: false); only report what would be deleted
+ *
+ * Success Response:
+ * - 202 Accepted: RetentionRunResultDto with per-table counts
+ *
+ * Error Responses:
+ * - 400: Validation error
+ * - 403: Missing/invalid service role credentials
+ * - 409: Another cleanup is still in progress
+ * - 500: Server error (the failure is recorded in retention_runs)
+ */
+export const retentionCleanupHandler = async (
+  req: Request,
+  res: Response,
+  _next: NextFunction
+): Promise<void> => {
+  try {
+    let validatedBody;
+    try {
+      validatedBody = RetentionCleanupCommandSchema.parse(req.body ?? {});
+    } catch (validationError) {
+      if (validationError instanceof z.ZodError) {
+        const details = Object.fromEntries(
+          validationError.errors.map((err) => [err.path.join('.'), err.message])
+        );
+        const errorResponse: ErrorResponseDto = {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Request body validation failed',
+            details,
+          },
+        };
+        res.status(400).json(errorResponse);
+        return;
+      }
+      throw validationError;
+    }
+
+    const retentionService = new RetentionService();
+    const result = await retentionService.runCleanup(validatedBody.dry_run);
+
+    res.status(202).json(result);
+  } catch (err) {
+    if (err instanceof RetentionRunInProgressError) {
+      const errorResponse: ErrorResponseDto = {
+        error: {
+          code: 'RUN_IN_PROGRESS',
+          message: 'A retention cleanup is already in progress',
+        },
+      };
+      res.status(409).json(errorResponse);
+      return;
+    }
+
+    console.error('retentionCleanupHandler error:', err);
+    const errorResponse: ErrorResponseDto = {
+      error: { code: 'SERVER_ERROR', message: 'An unexpected error occurred' },
+    };
+    res.status(500).json(errorResponse);
+  }
+};
+
+/**
+ * GET /internal/retention/runs
+ * List the retention run log (newest first) as proof that cleanup executed
+ *
+ * Query Parameters:
+ * - limit: optional integer 1-100 (default: 20)
+ * - offset: optional integer >=0 (default: 0)
+ *
+ * Success Response:
+ * - 200 OK: ListRetentionRunsResponseDto
+ *
+ * Error Responses:
+ * - 400: Query validation errors
+ * - 403: Missing/invalid service role credentials
+ * - 500: Server error
+ */
+export const listRetentionRunsHandler = async (
+  req: Request,
+  res: Response,
+  _next: NextFunction
+): Promise<void> => {
+  try {
+    let validatedQuery;
+    try {
+      validatedQuery = ListRetentionRunsQuerySchema.parse(req.query);
+    } catch (validationError) {
+      if (validationError instanceof z.ZodError) {
+        const details = Object.fromEntries(
+          validationError.errors.map((err) => [err.path.join('.'), err.message])
+        );
+        const errorResponse: ErrorResponseDto = {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid query parameters',
+            details,
+          },
+        };
+        res.status(400).json(errorResponse);
+        return;
+      }
+      throw validationError;
+    }
+
+    const retentionService = new RetentionService();
+    const result = await retentionService.listRuns(validatedQuery);
+
+    res.status(200).json(result);
+  } catch (err) {
+    console.error('listRetentionRunsHandler error:', err);
+    const errorResponse: ErrorResponseDto = {
+      error: { code: 'SERVER_ERROR', message: 'An unexpected error occurred' },
+    };
+    res.status(500).json(errorResponse);
+  }
+};
+
+/**
+ * POST /internal/cron/deliveries/email-run
+ * Send one batch of queued email deliveries that are due (new or awaiting retry)
+ *
+ * Success Response:
+ * - 202 Accepted: EmailDeliveryRunResultDto with sent/retrying/failed/bounced/cancelled counts
+ *
+ * Error Responses:
+ * - 403: Missing/invalid service role credentials
+ * - 500: Server error
+ */
+export const emailDeliveryRunHandler = async (
+  _req: Request,
+  res: Response,
+  _next: NextFunction
+): Promise<void> => {
+  try {
+    const emailDeliveryWorker = new EmailDeliveryWorker();
+    const result = await emailDeliveryWorker.run();
+
+    res.status(202).json(result);
+  } catch (err) {
+    console.error('emailDeliveryRunHandler error:', err);
+    const errorResponse: ErrorResponseDto = {
+      error: { code: 'SERVER_ERROR', message: 'An unexpected error occurred' },
+    };
+    res.status(500).json(errorResponse);
+  }
+};
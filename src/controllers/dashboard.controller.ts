@@ -0,0 +1,129 @@
+import { Request, Response, NextFunction } from 'express';
+import { createClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+import { DashboardQuerySchema } from '../validation/dashboard.js';
+import type { Database } from '../db/database.types.js';
+import { DashboardService } from '../services/dashboard.service.js';
+import { getDashboardCache } from '../services/dashboard-cache.service.js';
+import type { ErrorResponseDto } from '../types.js';
+
+const supabaseUrl = process.env.SUPABASE_URL as string;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_KEY as string;
+
+if (!supabaseUrl || !supabaseServiceKey) {
+  throw new Error('Missing Supabase environment variables');
+}
+
+/**
+ * Whether an If-None-Match header lists the entity tag (weak comparison, RFC 9110)
+ */
+function matchesEtag(ifNoneMatch: string, etag: string): boolean {
+  if (ifNoneMatch.trim() === '*') {
+    return true;
+  }
+  return ifNoneMatch.split(',').some((tag) => tag.trim().replace(/^W\//, '') === etag);
+}
+
+/**
+ * GET /api/dashboard
+ * Retrieves the dashboard overview of the authenticated user (PRD US-006)
+ *
+ * Query Parameters:
+ * - timezone: optional IANA timezone for local days (default: profile timezone)
+ * - since: optional period start, YYYY-MM-DD (local midnight) or ISO datetime (default: 4 weeks)
+ *
+ * Caching:
+ * - Payloads are cached per user for 5 minutes and invalidated when notes, reports or
+ *   preferences change; X-Cache tells whether the cache answered (HIT/MISS)
+ * - Responses carry an ETag; a matching If-None-Match is answered with 304 Not Modified
+ * - Cache-Control: private, no-cache, so clients revalidate on every load instead of reusing
+ *   a copy the server has already invalidated
+ *
+ * Response: 200 OK with DashboardDto (304 Not Modified when the ETag matches)
+ * Errors:
+ * - 400: VALIDATION_ERROR (invalid query parameters)
+ * - 401: UNAUTHORIZED (missing or invalid JWT)
+ * - 500: SERVER_ERROR (unexpected error)
+ */
+export const getDashboardHandler = async (
+  req: Request,
+  res: Response,
+  _next: NextFunction
+): Promise<void> => {
+  try {
+    // 1. Ensure authenticated
+    if (!req.auth) {
+      const errorResponse: ErrorResponseDto = {
+        error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+      };
+      res.status(401).json(errorResponse);
+      return;
+    }
+
+    // 2. Validate query parameters
+    let query;
+    try {
+      query = DashboardQuerySchema.parse(req.query);
+    } catch (validationError) {
+      if (validationError instanceof z.ZodError) {
+        const details = Object.fromEntries(
+          validationError.errors.map((err) => [err.path.join('.'), err.message])
+        );
+        const errorResponse: ErrorResponseDto = {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request parameters',
+            details,
+          },
+        };
+        res.status(400).json(errorResponse);
+        return;
+      }
+      throw validationError;
+    }
+
+    // 3. Create user-scoped client with JWT for RLS enforcement
+    const userClient = createClient<Database>(supabaseUrl, req.auth.jwt);
+    const dashboardService = new DashboardService(userClient);
+
+    // 4. Aggregate counts, streak and recent reports (or reuse the cached payload)
+    const { etag, dashboard, hit } = await dashboardService.getCachedDashboard(
+      req.auth.userId,
+      query
+    );
+
+    res
+      .set('ETag', etag)
+      .set('Cache-Control', 'private, no-cache')
+      .set('X-Cache', hit ? 'HIT' : 'MISS');
+
+    // 5. Answer conditional requests whose cached copy is still current
+    const ifNoneMatch = req.get('If-None-Match');
+    if (ifNoneMatch && matchesEtag(ifNoneMatch, etag)) {
+      res.status(304).end();
+      return;
+    }
+
+    res.status(200).json(dashboard);
+  } catch (err) {
+    console.error('getDashboardHandler error:', err);
+    const errorResponse: ErrorResponseDto = {
+      error: { code: 'SERVER_ERROR', message: 'An unexpected error occurred' },
+    };
+    res.status(500).json(errorResponse);
+  }
+};
+
+/**
+ * GET /internal/dashboard-cache/stats
+ * Reports dashboard cache hit/miss counters of this process (service role only)
+ *
+ * Response: 200 OK with DashboardCacheStats
+ */
+export const getDashboardCacheStatsHandler = async (
+  _req: Request,
+  res: Response,
+  _next: NextFunction
+): Promise<void> => {
+  res.status(200).json(getDashboardCache().stats());
+};
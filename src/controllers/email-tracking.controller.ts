@@ -0,0 +1,97 @@
+import { Request, Response, NextFunction } from 'express';
+import {
+  EmailTrackingQuerySchema,
+  EmailFeedbackRatingQuerySchema,
+} from '../validation/email-tracking.js';
+import {
+  EmailTrackingService,
+  TRACKING_PIXEL_GIF,
+  reportAppUrl,
+  type EmailOpenSource,
+} from '../services/email-tracking.service.js';
+import { InvalidSignedTokenError } from '../services/signed-token.service.js';
+import type { UUID } from '../types.js';
+
+/**
+ * Record an open, never failing the request: email clients only see a pixel or a redirect
+ * @returns report_id of the delivery, or null if unknown
+ */
+async function recordOpenQuietly(req: Request, source: EmailOpenSource): Promise<UUID | null> {
+  const parsed = EmailTrackingQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return null;
+  }
+
+  try {
+    return await new EmailTrackingService().recordOpen(
+      parsed.data.token,
+      req.get('user-agent'),
+      source
+    );
+  } catch (err) {
+    if (err instanceof InvalidSignedTokenError) {
+      console.warn(`[WARN] Email tracking ${source}: ${err.message}`);
+    } else {
+      console.error(`Email tracking ${source} error:`, err);
+    }
+    return null;
+  }
+}
+
+/**
+ * GET /api/email-tracking/open.gif?token=...
+ * Open tracking pixel embedded in report emails (no authentication)
+ *
+ * Marks the email delivery as opened on its first real open; prefetch bots and repeated
+ * opens are ignored
+ *
+ * Query Parameters:
+ * - token: signed 'email_open' token of the delivery
+ *
+ * Success Response:
+ * - 200 OK: 1x1 transparent GIF, never cached (also for invalid tokens)
+ */
+export const trackOpenHandler = async (
+  req: Request,
+  res: Response,
+  _next: NextFunction
+): Promise<void> => {
+  await recordOpenQuietly(req, 'pixel');
+
+  res
+    .status(200)
+    .set({
+      'Content-Type': 'image/gif',
+      'Cache-Control': 'no-store, no-cache, must-revalidate, private',
+      Pragma: 'no-cache',
+    })
+    .send(TRACKING_PIXEL_GIF);
+};
+
+/**
+ * GET /api/email-tracking/report?token=...
+ * Signed link to the report in the app (no authentication)
+ *
+ * Marks the email delivery as opened like the pixel does (for clients that block images),
+ * then redirects to the report. The target is derived from the delivery, never from the
+ * request, so the endpoint cannot be used as an open redirect
+ *
+ * Query Parameters:
+ * - token: signed 'email_open' token of the delivery
+ * - rating: optional -1 | 0 | 1 (emoji feedback buttons), passed on to the app
+ *
+ * Success Response:
+ * - 302 Found: Location APP_URL/reports/{report_id}[?rating=...]
+ *   (APP_URL/reports for invalid tokens)
+ */
+export const trackReportLinkHandler = async (
+  req: Request,
+  res: Response,
+  _next: NextFunction
+): Promise<void> => {
+  const reportId = await recordOpenQuietly(req, 'link');
+  const rating = EmailFeedbackRatingQuerySchema.safeParse(req.query);
+
+  res.set('Cache-Control', 'no-store');
+  res.redirect(302, reportAppUrl(reportId, rating.success ? rating.data.rating : undefined));
+};
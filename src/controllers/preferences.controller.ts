@@ -194,3 +194,63 @@ export const getPreferencesHandler = async (req: Request, res: Response): Promis
     res.status(500).json(errorResponse);
   }
 };
+
+/**
+ * Handler for POST /api/preferences/email-resubscribe
+ * Reverses an unsubscribe (from an email link or preferences) by clearing email_unsubscribed_at
+ * Deliveries cancelled by the unsubscribe are not re-queued; they can be re-sent per report
+ *
+ * @param req - Express request with authenticated user
+ * @param res - Express response object
+ * @returns 200 OK with updated PreferencesDto on success, error response otherwise
+ */
+export const resubscribeEmailHandler = async (req: Request, res: Response): Promise<void> => {
+  try {
+    // Step 1: Verify authentication
+    if (!req.auth) {
+      const errorResponse: ErrorResponseDto = {
+        error: {
+          code: 'JWT_INVALID',
+          message: 'Invalid credentials',
+        },
+      };
+      res.status(401).json(errorResponse);
+      return;
+    }
+
+    // Step 2: Create user-scoped Supabase client for RLS enforcement
+    const supabaseUrl = process.env.SUPABASE_URL as string;
+    const userClient = createClient<Database>(supabaseUrl, req.auth.jwt);
+
+    // Step 3: Initialize service and clear the unsubscribe
+    const preferencesService = new PreferencesService(userClient);
+    const preferences = await preferencesService.resubscribeToEmail(req.auth.userId);
+
+    // Step 4: Return success response
+    res.status(200).json(preferences);
+  } catch (err) {
+    // Handle PreferencesNotFoundError (404)
+    if (err instanceof PreferencesNotFoundError) {
+      const errorResponse: ErrorResponseDto = {
+        error: {
+          code: 'PREFERENCES_NOT_FOUND',
+          message: 'User preferences not found',
+        },
+      };
+      res.status(404).json(errorResponse);
+      return;
+    }
+
+    // Log unexpected errors for debugging
+    console.error('Preferences resubscribe handler error', err);
+
+    // Return generic server error (500)
+    const errorResponse: ErrorResponseDto = {
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Unexpected server error',
+      },
+    };
+    res.status(500).json(errorResponse);
+  }
+};
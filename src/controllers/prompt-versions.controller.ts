@@ -0,0 +1,103 @@
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import {
+  PromptVersionParamSchema,
+  ListPromptVersionReportsQuerySchema,
+} from '../validation/prompt-versions.js';
+import { PromptVersionsService } from '../services/prompt-versions.service.js';
+import type { ErrorResponseDto } from '../types.js';
+
+/**
+ * GET /internal/prompt-versions
+ * Lists registered weekly report prompt versions with A/B pin status,
+ * number of reports produced and aggregated report_feedback ratings
+ *
+ * Success Response:
+ * - 200 OK: ListPromptVersionsResponseDto
+ *
+ * Error Responses:
+ * - 403: Missing/invalid service role credentials
+ * - 500: Server error
+ */
+export const listPromptVersionsHandler = async (
+  _req: Request,
+  res: Response,
+  _next: NextFunction
+): Promise<void> => {
+  try {
+    const promptVersionsService = new PromptVersionsService();
+    const result = await promptVersionsService.listPromptVersions();
+
+    res.status(200).json(result);
+  } catch (err) {
+    console.error('listPromptVersionsHandler error:', err);
+    const errorResponse: ErrorResponseDto = {
+      error: { code: 'SERVER_ERROR', message: 'An unexpected error occurred' },
+    };
+    res.status(500).json(errorResponse);
+  }
+};
+
+/**
+ * GET /internal/prompt-versions/{version}/reports
+ * Lists reports generated with a prompt version together with their feedback rating
+ *
+ * Path Parameters:
+ * - version: prompt version (e.g. 'v1.0')
+ *
+ * Query Parameters:
+ * - limit: optional integer 1-100 (default: 20)
+ * - offset: optional integer >=0 (default: 0)
+ *
+ * Success Response:
+ * - 200 OK: ListPromptVersionReportsResponseDto
+ *
+ * Error Responses:
+ * - 400: Path/query validation errors
+ * - 403: Missing/invalid service role credentials
+ * - 500: Server error
+ */
+export const listPromptVersionReportsHandler = async (
+  req: Request,
+  res: Response,
+  _next: NextFunction
+): Promise<void> => {
+  try {
+    let validatedParams;
+    let validatedQuery;
+    try {
+      validatedParams = PromptVersionParamSchema.parse(req.params);
+      validatedQuery = ListPromptVersionReportsQuerySchema.parse(req.query);
+    } catch (validationError) {
+      if (validationError instanceof z.ZodError) {
+        const details = Object.fromEntries(
+          validationError.errors.map((err) => [err.path.join('.'), err.message])
+        );
+        const errorResponse: ErrorResponseDto = {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request parameters',
+            details,
+          },
+        };
+        res.status(400).json(errorResponse);
+        return;
+      }
+      throw validationError;
+    }
+
+    const promptVersionsService = new PromptVersionsService();
+    const result = await promptVersionsService.listReportsForVersion(
+      validatedParams.version,
+      validatedQuery
+    );
+
+    res.status(200).json(result);
+  } catch (err) {
+    console.error('listPromptVersionReportsHandler error:', err);
+    const errorResponse: ErrorResponseDto = {
+      error: { code: 'SERVER_ERROR', message: 'An unexpected error occurred' },
+    };
+    res.status(500).json(errorResponse);
+  }
+};
@@ -1,6 +1,10 @@
 import { Request, Response, NextFunction } from 'express';
 import { createClient } from '@supabase/supabase-js';
-import { ListReportDeliveriesQuerySchema } from '../validation/report-deliveries.js';
+import {
+  ListReportDeliveriesQuerySchema,
+  ReportDeliveryIdParamSchema,
+  SnoozeDeliveryCommandSchema,
+} from '../validation/report-deliveries.js';
 import type { Database } from '../db/database.types.js';
 import {
   ReportDeliveriesService,
@@ -10,6 +14,8 @@ import {
   PreferencesNotFoundError,
   DeliveryAlreadyExistsError,
   DeliveryNotFoundError,
+  InvalidDeliveryTransitionError,
+  DeliveryStatusConflictError,
 } from '../services/report-deliveries.service.js';
 import type { ErrorResponseDto } from '../types.js';
 import { z } from 'zod';
@@ -28,7 +34,7 @@ if (!supabaseUrl || !supabaseServiceKey) {
  * Query Parameters:
  * - report_id: optional UUID to filter by specific report
  * - channel: optional enum ('in_app' or 'email')
- * - status: optional enum ('queued', 'sent', or 'opened')
+ * - status: optional enum ('queued', 'retrying', 'sent', 'opened', 'failed', 'bounced', 'cancelled')
  * - limit: pagination limit 1-100 (default: 20)
  * - offset: pagination offset >=0 (default: 0)
  *
@@ -101,6 +107,7 @@ export const listReportDeliveriesHandler = async (
 /**
  * POST /api/reports/{id}/deliveries/email
  * Request/queue email delivery for a report if user preferences allow
+ * Also re-sends a report whose earlier email delivery failed
  *
  * Path Parameters:
  * - id: required UUID of the report
@@ -109,10 +116,11 @@ export const listReportDeliveriesHandler = async (
  * - 202 Accepted: EmailDeliveryResponseDto with queued delivery
  *
  * Error Responses:
- * - 400: Validation or business logic error (not preferred, unsubscribed, etc.)
+ * - 400: Validation error (invalid UUID format)
  * - 401: Missing/invalid authentication
  * - 404: Report not found
- * - 409: Delivery already exists
+ * - 409: Email delivery already queued or sent for this report
+ * - 422: Email not allowed by preferences (not preferred, unsubscribed, no preferences)
  * - 500: Server error
  */
 export const queueEmailDeliveryHandler = async (
@@ -178,7 +186,7 @@ export const queueEmailDeliveryHandler = async (
           message: 'User has unsubscribed from email delivery',
         },
       };
-      res.status(400).json(errorResponse);
+      res.status(422).json(errorResponse);
       return;
     }
 
@@ -189,7 +197,7 @@ export const queueEmailDeliveryHandler = async (
           message: 'Email delivery is not enabled in user preferences',
         },
       };
-      res.status(400).json(errorResponse);
+      res.status(422).json(errorResponse);
       return;
     }
 
@@ -200,7 +208,7 @@ export const queueEmailDeliveryHandler = async (
           message: 'User preferences not found',
         },
       };
-      res.status(400).json(errorResponse);
+      res.status(422).json(errorResponse);
       return;
     }
 
@@ -208,7 +216,18 @@ export const queueEmailDeliveryHandler = async (
       const errorResponse: ErrorResponseDto = {
         error: {
           code: 'DELIVERY_ALREADY_EXISTS',
-          message: 'Email delivery already queued for this report',
+          message: 'Email delivery already queued or sent for this report',
+        },
+      };
+      res.status(409).json(errorResponse);
+      return;
+    }
+
+    if (err instanceof DeliveryStatusConflictError) {
+      const errorResponse: ErrorResponseDto = {
+        error: {
+          code: 'DELIVERY_STATUS_CONFLICT',
+          message: 'Email delivery changed status, please try again',
         },
       };
       res.status(409).json(errorResponse);
@@ -238,6 +257,7 @@ export const queueEmailDeliveryHandler = async (
  * - 400: Validation error (invalid UUID format)
  * - 401: Missing/invalid authentication
  * - 404: Delivery not found or user doesn't own it
+ * - 409: Delivery was never sent (retrying, failed, bounced, cancelled) or changed status concurrently
  * - 500: Server error
  */
 export const markOpenedHandler = async (
@@ -296,6 +316,29 @@ export const markOpenedHandler = async (
       return;
     }
 
+    if (err instanceof InvalidDeliveryTransitionError) {
+      const errorResponse: ErrorResponseDto = {
+        error: {
+          code: 'INVALID_STATUS_TRANSITION',
+          message: `Report delivery with status '${err.from}' cannot be marked as opened`,
+          details: { status: err.from },
+        },
+      };
+      res.status(409).json(errorResponse);
+      return;
+    }
+
+    if (err instanceof DeliveryStatusConflictError) {
+      const errorResponse: ErrorResponseDto = {
+        error: {
+          code: 'DELIVERY_STATUS_CONFLICT',
+          message: 'Report delivery changed status, please try again',
+        },
+      };
+      res.status(409).json(errorResponse);
+      return;
+    }
+
     // Generic error handling
     console.error('markOpenedHandler error:', err);
     const errorResponse: ErrorResponseDto = {
@@ -304,3 +347,181 @@ export const markOpenedHandler = async (
     res.status(500).json(errorResponse);
   }
 };
+
+/**
+ * GET /api/report-deliveries/inbox
+ * Retrieve unopened in_app report deliveries for the in-app banner
+ *
+ * Excludes dismissed deliveries, deliveries snoozed until later and deleted reports
+ *
+ * Success Response:
+ * - 200 OK: InboxResponseDto (items with report metadata, most recent first; total)
+ *
+ * Error Responses:
+ * - 401: Missing/invalid authentication
+ * - 500: Server error
+ */
+export const getInboxHandler = async (
+  req: Request,
+  res: Response,
+  _next: NextFunction
+): Promise<void> => {
+  try {
+    // 1. Ensure authenticated
+    if (!req.auth) {
+      const errorResponse: ErrorResponseDto = {
+        error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+      };
+      res.status(401).json(errorResponse);
+      return;
+    }
+
+    // 2. Create user-scoped client with JWT for RLS enforcement
+    const userClient = createClient<Database>(supabaseUrl, req.auth.jwt);
+    const reportDeliveriesService = new ReportDeliveriesService(userClient);
+
+    // 3. Retrieve inbox
+    const inbox = await reportDeliveriesService.getInbox(req.auth.userId);
+
+    res.status(200).json(inbox);
+  } catch (err) {
+    console.error('getInboxHandler error:', err);
+    const errorResponse: ErrorResponseDto = {
+      error: { code: 'SERVER_ERROR', message: 'An unexpected error occurred' },
+    };
+    res.status(500).json(errorResponse);
+  }
+};
+
+/**
+ * POST /api/report-deliveries/{id}/dismiss
+ * Hide an in_app delivery from the inbox for good (does not mark it opened)
+ *
+ * Path Parameters:
+ * - id: required UUID of the in_app report delivery
+ *
+ * Success Response:
+ * - 204 No Content
+ *
+ * Error Responses:
+ * - 400: Validation error (invalid UUID format)
+ * - 401: Missing/invalid authentication
+ * - 404: Delivery not found, not in_app or user doesn't own it
+ * - 500: Server error
+ */
+export const dismissDeliveryHandler = async (
+  req: Request,
+  res: Response,
+  _next: NextFunction
+): Promise<void> => {
+  try {
+    // 1. Ensure authenticated
+    if (!req.auth) {
+      const errorResponse: ErrorResponseDto = {
+        error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+      };
+      res.status(401).json(errorResponse);
+      return;
+    }
+
+    // 2. Validate path parameter
+    const params = ReportDeliveryIdParamSchema.parse(req.params);
+
+    // 3. Create user-scoped client with JWT for RLS enforcement
+    const userClient = createClient<Database>(supabaseUrl, req.auth.jwt);
+    const reportDeliveriesService = new ReportDeliveriesService(userClient);
+
+    // 4. Dismiss delivery
+    await reportDeliveriesService.dismissInboxDelivery(req.auth.userId, params.id);
+
+    res.status(204).send();
+  } catch (err) {
+    sendInboxActionError(err, res, 'dismissDeliveryHandler');
+  }
+};
+
+/**
+ * POST /api/report-deliveries/{id}/snooze
+ * Hide an in_app delivery from the inbox until a given time
+ *
+ * Path Parameters:
+ * - id: required UUID of the in_app report delivery
+ *
+ * Request Body:
+ * - until: required ISO datetime in the future, at most 7 days ahead
+ *
+ * Success Response:
+ * - 204 No Content
+ *
+ * Error Responses:
+ * - 400: Validation error (invalid UUID format, invalid or out of range `until`)
+ * - 401: Missing/invalid authentication
+ * - 404: Delivery not found, not in_app or user doesn't own it
+ * - 500: Server error
+ */
+export const snoozeDeliveryHandler = async (
+  req: Request,
+  res: Response,
+  _next: NextFunction
+): Promise<void> => {
+  try {
+    // 1. Ensure authenticated
+    if (!req.auth) {
+      const errorResponse: ErrorResponseDto = {
+        error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+      };
+      res.status(401).json(errorResponse);
+      return;
+    }
+
+    // 2. Validate path parameter and body
+    const params = ReportDeliveryIdParamSchema.parse(req.params);
+    const command = SnoozeDeliveryCommandSchema.parse(req.body);
+
+    // 3. Create user-scoped client with JWT for RLS enforcement
+    const userClient = createClient<Database>(supabaseUrl, req.auth.jwt);
+    const reportDeliveriesService = new ReportDeliveriesService(userClient);
+
+    // 4. Snooze delivery
+    await reportDeliveriesService.snoozeInboxDelivery(req.auth.userId, params.id, command.until);
+
+    res.status(204).send();
+  } catch (err) {
+    sendInboxActionError(err, res, 'snoozeDeliveryHandler');
+  }
+};
+
+/**
+ * Map dismiss/snooze errors to responses
+ */
+function sendInboxActionError(err: unknown, res: Response, handler: string): void {
+  if (err instanceof z.ZodError) {
+    const details = Object.fromEntries(err.errors.map((e) => [e.path.join('.'), e.message]));
+    const errorResponse: ErrorResponseDto = {
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Invalid request',
+        details,
+      },
+    };
+    res.status(400).json(errorResponse);
+    return;
+  }
+
+  if (err instanceof DeliveryNotFoundError) {
+    const errorResponse: ErrorResponseDto = {
+      error: {
+        code: 'DELIVERY_NOT_FOUND',
+        message: 'Report delivery not found',
+      },
+    };
+    res.status(404).json(errorResponse);
+    return;
+  }
+
+  console.error(`${handler} error:`, err);
+  const errorResponse: ErrorResponseDto = {
+    error: { code: 'SERVER_ERROR', message: 'An unexpected error occurred' },
+  };
+  res.status(500).json(errorResponse);
+}
@@ -0,0 +1,303 @@
+import { Request, Response, NextFunction } from 'express';
+import { createClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+import { ReportJobIdParamSchema } from '../validation/report-jobs.js';
+import type { Database } from '../db/database.types.js';
+import { ReportJobsService, ReportJobNotFoundError } from '../services/report-jobs.service.js';
+import { reportJobEvents, type ReportJobEvent } from '../services/report-job-events.service.js';
+import type { ErrorResponseDto, ReportJobDto } from '../types.js';
+
+const supabaseUrl = process.env.SUPABASE_URL as string;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_KEY as string;
+
+if (!supabaseUrl || !supabaseServiceKey) {
+  throw new Error('Missing Supabase environment variables');
+}
+
+/**
+ * How often an open event stream re-reads the stored job, to end streams of jobs whose
+ * progress this process never sees (run by another instance, or left behind by a restart)
+ */
+const STREAM_STATUS_POLL_MS = 10 * 1000;
+
+/**
+ * Longest an event stream stays open; clients reconnect with Last-Event-ID
+ */
+const STREAM_MAX_LIFETIME_MS = 10 * 60 * 1000;
+
+const isTerminal = (status: string) => status === 'succeeded' || status === 'failed';
+
+/**
+ * job_status event built from a stored job
+ */
+const storedJobStatus = (job: ReportJobDto): ReportJobEvent['payload'] => ({
+  type: 'job_status',
+  status: job.status,
+  report_id: job.report_id,
+  error: job.error_code
+    ? {
+        code: job.error_code,
+        message: job.error_message ?? '',
+        ...(job.error_details ? { details: job.error_details as Record<string, unknown> } : {}),
+      }
+    : null,
+});
+
+/**
+ * GET /api/report-jobs/{id}
+ * Retrieve the state of an on-demand report generation job (owner only)
+ *
+ * Path Parameters:
+ * - id: required UUID of the job (from the Location header of POST /api/reports/generate)
+ *
+ * Success Response:
+ * - 200 OK: ReportJobDto
+ *   - status: 'queued' | 'running' | 'succeeded' | 'failed'
+ *   - report_id: set once the job succeeded
+ *   - error_code/error_message/error_details: set once the job failed
+ *
+ * Error Responses:
+ * - 400: Invalid UUID format
+ * - 401: Missing/invalid authentication
+ * - 404: Job not found or user doesn't own it
+ * - 500: Server error
+ */
+export const getReportJobHandler = async (
+  req: Request,
+  res: Response,
+  _next: NextFunction
+): Promise<void> => {
+  try {
+    // 1. Ensure authenticated
+    if (!req.auth) {
+      const errorResponse: ErrorResponseDto = {
+        error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+      };
+      res.status(401).json(errorResponse);
+      return;
+    }
+
+    // 2. Validate path parameter
+    let validatedParam;
+    try {
+      validatedParam = ReportJobIdParamSchema.parse(req.params);
+    } catch (validationError) {
+      if (validationError instanceof z.ZodError) {
+        const details = Object.fromEntries(
+          validationError.errors.map((err) => [err.path.join('.'), err.message])
+        );
+        const errorResponse: ErrorResponseDto = {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid report job ID format',
+            details,
+          },
+        };
+        res.status(400).json(errorResponse);
+        return;
+      }
+      throw validationError;
+    }
+
+    // 3. Create user-scoped client with JWT for RLS enforcement
+    const userClient = createClient<Database>(supabaseUrl, req.auth.jwt);
+    const reportJobsService = new ReportJobsService(userClient);
+
+    // 4. Retrieve job
+    const job = await reportJobsService.getJob(req.auth.userId, validatedParam.id);
+
+    res.status(200).json(job);
+  } catch (err) {
+    if (err instanceof ReportJobNotFoundError) {
+      const errorResponse: ErrorResponseDto = {
+        error: {
+          code: 'REPORT_JOB_NOT_FOUND',
+          message: 'Report job not found',
+        },
+      };
+      res.status(404).json(errorResponse);
+      return;
+    }
+
+    console.error('getReportJobHandler error:', err);
+    const errorResponse: ErrorResponseDto = {
+      error: { code: 'SERVER_ERROR', message: 'An unexpected error occurred' },
+    };
+    res.status(500).json(errorResponse);
+  }
+};
+
+/**
+ * GET /api/report-jobs/{id}/events
+ * Stream progress of a report job as Server-Sent Events (owner only)
+ *
+ * Events (SSE `event:` name = payload type, `data:` = ReportGenerationEventDto JSON):
+ * - job_status: running / succeeded (with report_id) / failed (with error); terminal
+ *   statuses end the stream
+ * - categories_validated, weekly_limit_checked, notes_fetched, report_saved: pipeline steps
+ * - llm_token: raw model output as it is generated
+ *
+ * Every event carries an `id:`; reconnecting with Last-Event-ID resumes after it.
+ * Jobs that finished before this process buffered any progress (e.g. after a restart)
+ * produce a single job_status event built from the stored job. While the stream is open the
+ * stored job is re-read every 10 seconds, so a job finished by another instance still ends
+ * it with its stored job_status; streams close after 10 minutes at most
+ *
+ * Error Responses (before the stream starts):
+ * - 400: Invalid UUID format
+ * - 401: Missing/invalid authentication
+ * - 404: Job not found or user doesn't own it
+ * - 500: Server error
+ */
+export const streamReportJobEventsHandler = async (
+  req: Request,
+  res: Response,
+  _next: NextFunction
+): Promise<void> => {
+  try {
+    // 1. Ensure authenticated
+    if (!req.auth) {
+      const errorResponse: ErrorResponseDto = {
+        error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+      };
+      res.status(401).json(errorResponse);
+      return;
+    }
+
+    // 2. Validate path parameter
+    let validatedParam;
+    try {
+      validatedParam = ReportJobIdParamSchema.parse(req.params);
+    } catch (validationError) {
+      if (validationError instanceof z.ZodError) {
+        const details = Object.fromEntries(
+          validationError.errors.map((err) => [err.path.join('.'), err.message])
+        );
+        const errorResponse: ErrorResponseDto = {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid report job ID format',
+            details,
+          },
+        };
+        res.status(400).json(errorResponse);
+        return;
+      }
+      throw validationError;
+    }
+
+    // 3. Verify ownership (RLS) before opening the stream
+    const userClient = createClient<Database>(supabaseUrl, req.auth.jwt);
+    const reportJobsService = new ReportJobsService(userClient);
+    const job = await reportJobsService.getJob(req.auth.userId, validatedParam.id);
+
+    // 4. Open the event stream
+    res.status(200).set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no', // Disable proxy buffering (nginx)
+    });
+    res.flushHeaders();
+
+    let lastSentId = 0;
+    const send = (event: ReportJobEvent) => {
+      lastSentId = event.id;
+      res.write(
+        `id: ${event.id}\nevent: ${event.payload.type}\ndata: ${JSON.stringify(event.payload)}\n\n`
+      );
+    };
+
+    // Progress was produced elsewhere (or is gone): report the stored outcome
+    if (isTerminal(job.status) && !reportJobEvents.hasHistory(job.id)) {
+      send({ id: 1, payload: storedJobStatus(job) });
+      res.end();
+      return;
+    }
+
+    const lastEventId = Number(req.header('Last-Event-ID')) || 0;
+    lastSentId = lastEventId;
+
+    const cleanups: (() => void)[] = [];
+    let finished = false;
+
+    const finish = () => {
+      if (finished) {
+        return;
+      }
+      finished = true;
+      cleanups.forEach((cleanup) => cleanup());
+      res.end();
+    };
+
+    const subscription = reportJobEvents.subscribe(
+      job.id,
+      (event) => {
+        send(event);
+        if (event.payload.type === 'job_status' && isTerminal(event.payload.status)) {
+          finish();
+        }
+      },
+      lastEventId
+    );
+    cleanups.push(subscription.unsubscribe);
+
+    // Replay may already have ended the stream
+    if (finished || subscription.closed) {
+      subscription.unsubscribe();
+      finish();
+      return;
+    }
+
+    // Comment lines keep idle connections open through proxies
+    const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), 15000);
+
+    // The outcome may only reach the database (no local progress): end with the stored status
+    const statusPoll = setInterval(async () => {
+      try {
+        const current = await reportJobsService.getJob(job.user_id, job.id);
+        if (!finished && isTerminal(current.status)) {
+          send({ id: lastSentId + 1, payload: storedJobStatus(current) });
+          finish();
+        }
+      } catch (err) {
+        console.warn(
+          `[WARN] Failed to re-read report job ${job.id} for its event stream: ${err instanceof Error ? err.message : String(err)}`
+        );
+      }
+    }, STREAM_STATUS_POLL_MS);
+
+    const lifetime = setTimeout(finish, STREAM_MAX_LIFETIME_MS);
+
+    cleanups.push(
+      () => clearInterval(heartbeat),
+      () => clearInterval(statusPoll),
+      () => clearTimeout(lifetime)
+    );
+
+    req.on('close', finish);
+  } catch (err) {
+    if (res.headersSent) {
+      console.error('streamReportJobEventsHandler stream error:', err);
+      res.end();
+      return;
+    }
+
+    if (err instanceof ReportJobNotFoundError) {
+      const errorResponse: ErrorResponseDto = {
+        error: {
+          code: 'REPORT_JOB_NOT_FOUND',
+          message: 'Report job not found',
+        },
+      };
+      res.status(404).json(errorResponse);
+      return;
+    }
+
+    console.error('streamReportJobEventsHandler error:', err);
+    const errorResponse: ErrorResponseDto = {
+      error: { code: 'SERVER_ERROR', message: 'An unexpected error occurred' },
+    };
+    res.status(500).json(errorResponse);
+  }
+};
@@ -4,6 +4,9 @@ import {
   ListReportsQuerySchema,
   GenerateReportCommandSchema,
   DeleteReportParamSchema,
+  ReportEmailPreviewParamSchema,
+  ReportEmailPreviewQuerySchema,
+  ReportPdfParamSchema,
 } from '../validation/reports.js';
 import type { Database } from '../db/database.types.js';
 import {
@@ -12,6 +15,11 @@ import {
   WeeklyLimitExceededError,
   InvalidCategoriesError,
 } from '../services/reports.service.js';
+import { ReportJobsService } from '../services/report-jobs.service.js';
+import { ReportPdfService } from '../services/report-pdf.service.js';
+import { renderReportEmail } from '../services/report-email-renderer.service.js';
+import { reportAppUrl } from '../services/email-tracking.service.js';
+import { EmailUnsubscribeService } from '../services/email-unsubscribe.service.js';
 import type { ErrorResponseDto } from '../types.js';
 import { z } from 'zod';
 
@@ -182,16 +190,18 @@ export const getReportHandler = async (
 
 /**
  * POST /api/reports/generate
- * Generate a new on-demand report for the authenticated user
+ * Enqueue generation of a new on-demand report for the authenticated user
+ * Poll GET /api/report-jobs/{id} (Location header) for the outcome
  *
  * Request Body:
  * - include_categories: UUID[] (1-3 elements, all valid/authorized)
  *
  * Headers:
  * - Idempotency-Key: optional UUID or string for deduplication
+ *   (a retried request returns the job of the first request)
  *
  * Success Response:
- * - 201 Created: Full ReportDto with Location header
+ * - 202 Accepted: ReportJobDto with Location header
  *
  * Error Responses:
  * - 400: Validation error (invalid UUIDs, empty array, etc.)
@@ -242,17 +252,13 @@ export const generateReportHandler = async (
 
     // 3. Create user-scoped client with JWT for RLS enforcement
     const userClient = createClient<Database>(supabaseUrl, jwt);
-    const reportsService = new ReportsService(userClient);
+    const reportJobsService = new ReportJobsService(userClient);
 
-    // 4. Generate report through service
-    const generatedReport = await reportsService.generateReport(
-      userId,
-      validatedBody,
-      idempotencyKey
-    );
+    // 4. Validate and enqueue generation job
+    const job = await reportJobsService.enqueue(userId, validatedBody, idempotencyKey);
 
-    // 5. Return created report with 201 Created and Location header
-    res.status(201).set('Location', `/api/reports/${generatedReport.id}`).json(generatedReport);
+    // 5. Return job with 202 Accepted and Location header for polling
+    res.status(202).set('Location', `/api/report-jobs/${job.id}`).json(job);
   } catch (err) {
     // Handle specific service errors with appropriate HTTP status codes
 
@@ -383,3 +389,197 @@ export const deleteReportHandler = async (
     res.status(500).json(errorResponse);
   }
 };
+
+/**
+ * GET /api/reports/{id}/email-preview
+ * Render the email that would be sent for a report (owner only)
+ *
+ * Links point straight to the app (no open tracking) and no pixel is included;
+ * the unsubscribe link is the user's real one
+ *
+ * Path Parameters:
+ * - id: required UUID of the report
+ *
+ * Query Parameters:
+ * - format: optional 'html' (default), 'text' or 'json'
+ *
+ * Success Response:
+ * - 200 OK: text/html page, text/plain alternative, or { subject, html, text }
+ *
+ * Error Responses:
+ * - 400: Validation error (invalid UUID format or format)
+ * - 401: Missing/invalid authentication
+ * - 404: Report not found or user doesn't own it
+ * - 500: Server error
+ */
+export const previewReportEmailHandler = async (
+  req: Request,
+  res: Response,
+  _next: NextFunction
+): Promise<void> => {
+  try {
+    // 1. Ensure authenticated
+    if (!req.auth) {
+      const errorResponse: ErrorResponseDto = {
+        error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+      };
+      res.status(401).json(errorResponse);
+      return;
+    }
+
+    // 2. Validate path and query parameters
+    let params;
+    let query;
+    try {
+      params = ReportEmailPreviewParamSchema.parse(req.params);
+      query = ReportEmailPreviewQuerySchema.parse(req.query);
+    } catch (validationError) {
+      if (validationError instanceof z.ZodError) {
+        const details = Object.fromEntries(
+          validationError.errors.map((err) => [err.path.join('.'), err.message])
+        );
+        const errorResponse: ErrorResponseDto = {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request parameters',
+            details,
+          },
+        };
+        res.status(400).json(errorResponse);
+        return;
+      }
+      throw validationError;
+    }
+
+    // 3. Create user-scoped client with JWT for RLS enforcement
+    const userClient = createClient<Database>(supabaseUrl, req.auth.jwt);
+    const reportsService = new ReportsService(userClient);
+
+    // 4. Retrieve report and render it with untracked links
+    const report = await reportsService.getReportById(req.auth.userId, params.id);
+    const email = renderReportEmail(report, {
+      reportUrl: reportAppUrl(report.id),
+      feedbackUrls: {
+        1: reportAppUrl(report.id, 1),
+        0: reportAppUrl(report.id, 0),
+        [-1]: reportAppUrl(report.id, -1),
+      },
+      unsubscribeUrl: new EmailUnsubscribeService().linksFor(req.auth.userId).pageUrl,
+    });
+
+    // 5. Return the requested representation
+    if (query.format === 'json') {
+      res.status(200).json(email);
+    } else if (query.format === 'text') {
+      res.status(200).type('text/plain').send(email.text);
+    } else {
+      res.status(200).type('html').send(email.html);
+    }
+  } catch (err) {
+    if (err instanceof ReportNotFoundError) {
+      const errorResponse: ErrorResponseDto = {
+        error: {
+          code: 'REPORT_NOT_FOUND',
+          message: 'Report not found',
+        },
+      };
+      res.status(404).json(errorResponse);
+      return;
+    }
+
+    console.error('previewReportEmailHandler error:', err);
+    const errorResponse: ErrorResponseDto = {
+      error: { code: 'SERVER_ERROR', message: 'An unexpected error occurred' },
+    };
+    res.status(500).json(errorResponse);
+  }
+};
+
+/**
+ * GET /api/reports/{id}/pdf
+ * Download a report as PDF
+ *
+ * The PDF is rendered when the report is generated; reports without a stored PDF
+ * (older reports, failed export, file removed) are rendered on first download
+ *
+ * Path Parameters:
+ * - id: required UUID of the report
+ *
+ * Success Response:
+ * - 200 OK: application/pdf attachment
+ *
+ * Error Responses:
+ * - 400: Validation error (invalid UUID format)
+ * - 401: Missing/invalid authentication
+ * - 404: Report not found, deleted or user doesn't own it
+ * - 500: Server error
+ */
+export const getReportPdfHandler = async (
+  req: Request,
+  res: Response,
+  _next: NextFunction
+): Promise<void> => {
+  try {
+    // 1. Ensure authenticated
+    if (!req.auth) {
+      const errorResponse: ErrorResponseDto = {
+        error: { code: 'UNAUTHORIZED', message: 'Authentication required' },
+      };
+      res.status(401).json(errorResponse);
+      return;
+    }
+
+    // 2. Validate path parameters
+    let params;
+    try {
+      params = ReportPdfParamSchema.parse(req.params);
+    } catch (validationError) {
+      if (validationError instanceof z.ZodError) {
+        const details = Object.fromEntries(
+          validationError.errors.map((err) => [err.path.join('.'), err.message])
+        );
+        const errorResponse: ErrorResponseDto = {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid request parameters',
+            details,
+          },
+        };
+        res.status(400).json(errorResponse);
+        return;
+      }
+      throw validationError;
+    }
+
+    // 3. Create user-scoped client with JWT for RLS enforcement
+    const userClient = createClient<Database>(supabaseUrl, req.auth.jwt);
+    const reportPdfService = new ReportPdfService(userClient);
+
+    // 4. Retrieve (or render) the PDF of the user's report
+    const pdf = await reportPdfService.getReportPdf(req.auth.userId, params.id);
+
+    res
+      .status(200)
+      .type('application/pdf')
+      .set('Content-Disposition', `attachment; filename="${pdf.fileName}"`)
+      .set('Cache-Control', 'private, no-store')
+      .send(pdf.data);
+  } catch (err) {
+    if (err instanceof ReportNotFoundError) {
+      const errorResponse: ErrorResponseDto = {
+        error: {
+          code: 'REPORT_NOT_FOUND',
+          message: 'Report not found',
+        },
+      };
+      res.status(404).json(errorResponse);
+      return;
+    }
+
+    console.error('getReportPdfHandler error:', err);
+    const errorResponse: ErrorResponseDto = {
+      error: { code: 'SERVER_ERROR', message: 'An unexpected error occurred' },
+    };
+    res.status(500).json(errorResponse);
+  }
+};
@@ -0,0 +1,139 @@
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { UnsubscribeQuerySchema } from '../validation/unsubscribe.js';
+import { EmailUnsubscribeService } from '../services/email-unsubscribe.service.js';
+import { InvalidSignedTokenError } from '../services/signed-token.service.js';
+import { PreferencesNotFoundError } from '../services/preferences.service.js';
+import type { ErrorResponseDto } from '../types.js';
+
+/**
+ * Parse the token query parameter, sending a 400 response if it is missing
+ * @returns token, or null if a response was sent
+ */
+function parseToken(req: Request, res: Response): string | null {
+  try {
+    return UnsubscribeQuerySchema.parse(req.query).token;
+  } catch (validationError) {
+    if (validationError instanceof z.ZodError) {
+      const details = Object.fromEntries(
+        validationError.errors.map((err) => [err.path.join('.'), err.message])
+      );
+      const errorResponse: ErrorResponseDto = {
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid query parameters',
+          details,
+        },
+      };
+      res.status(400).json(errorResponse);
+      return null;
+    }
+    throw validationError;
+  }
+}
+
+/**
+ * Map unsubscribe errors to responses
+ */
+function sendUnsubscribeError(err: unknown, res: Response, handler: string): void {
+  if (err instanceof InvalidSignedTokenError) {
+    const errorResponse: ErrorResponseDto = {
+      error: {
+        code: 'INVALID_UNSUBSCRIBE_TOKEN',
+        message: 'Unsubscribe link is invalid',
+      },
+    };
+    res.status(400).json(errorResponse);
+    return;
+  }
+
+  if (err instanceof PreferencesNotFoundError) {
+    const errorResponse: ErrorResponseDto = {
+      error: {
+        code: 'PREFERENCES_NOT_FOUND',
+        message: 'User preferences not found',
+      },
+    };
+    res.status(404).json(errorResponse);
+    return;
+  }
+
+  console.error(`${handler} error:`, err);
+  const errorResponse: ErrorResponseDto = {
+    error: { code: 'SERVER_ERROR', message: 'An unexpected error occurred' },
+  };
+  res.status(500).json(errorResponse);
+}
+
+/**
+ * GET /api/unsubscribe?token=...
+ * Check the unsubscribe link and the current email subscription (no authentication)
+ * Used by the confirmation page; never changes anything, since mail scanners prefetch links
+ *
+ * Query Parameters:
+ * - token: required signed unsubscribe token
+ *
+ * Success Response:
+ * - 200 OK: EmailSubscriptionStatusDto
+ *
+ * Error Responses:
+ * - 400: Missing or invalid token
+ * - 404: User preferences not found
+ * - 500: Server error
+ */
+export const getUnsubscribeStatusHandler = async (
+  req: Request,
+  res: Response,
+  _next: NextFunction
+): Promise<void> => {
+  try {
+    const token = parseToken(req, res);
+    if (token === null) {
+      return;
+    }
+
+    const status = await new EmailUnsubscribeService().getStatus(token);
+
+    res.status(200).json(status);
+  } catch (err) {
+    sendUnsubscribeError(err, res, 'getUnsubscribeStatusHandler');
+  }
+};
+
+/**
+ * POST /api/unsubscribe?token=...
+ * Unsubscribe from report emails (no authentication)
+ *
+ * Accepts the RFC 8058 one-click request sent by mail clients
+ * (body `List-Unsubscribe=One-Click`, form encoded) as well as a plain POST from the
+ * confirmation page. Sets email_unsubscribed_at and cancels pending email deliveries
+ *
+ * Query Parameters:
+ * - token: required signed unsubscribe token
+ *
+ * Success Response:
+ * - 200 OK: UnsubscribeResponseDto (repeating the request is harmless)
+ *
+ * Error Responses:
+ * - 400: Missing or invalid token
+ * - 404: User preferences not found
+ * - 500: Server error
+ */
+export const unsubscribeHandler = async (
+  req: Request,
+  res: Response,
+  _next: NextFunction
+): Promise<void> => {
+  try {
+    const token = parseToken(req, res);
+    if (token === null) {
+      return;
+    }
+
+    const result = await new EmailUnsubscribeService().unsubscribe(token);
+
+    res.status(200).json(result);
+  } catch (err) {
+    sendUnsubscribeError(err, res, 'unsubscribeHandler');
+  }
+};
@@ -29,6 +29,42 @@ export type Database = {
   };
   public: {
     Tables: {
+      analytics_event_quarantine: {
+        Row: {
+          created_at: string;
+          details: Json;
+          event_name: string;
+          id: number;
+          properties: Json;
+          reason: string;
+          schema_version: number | null;
+          source: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          details?: Json;
+          event_name: string;
+          id?: number;
+          properties?: Json;
+          reason: string;
+          schema_version?: number | null;
+          source: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          details?: Json;
+          event_name?: string;
+          id?: number;
+          properties?: Json;
+          reason?: string;
+          schema_version?: number | null;
+          source?: string;
+          user_id?: string;
+        };
+        Relationships: [];
+      };
       analytics_events: {
         Row: {
           created_at: string;
@@ -83,6 +119,48 @@ export type Database = {
         };
         Relationships: [];
       };
+      idempotency_keys: {
+        Row: {
+          created_at: string;
+          expires_at: string;
+          id: string;
+          key: string;
+          report_id: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          expires_at: string;
+          id?: string;
+          key: string;
+          report_id: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          expires_at?: string;
+          id?: string;
+          key?: string;
+          report_id?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'fk_idempotency_keys_report_id';
+            columns: ['report_id'];
+            isOneToOne: false;
+            referencedRelation: 'report_weeks';
+            referencedColumns: ['report_id'];
+          },
+          {
+            foreignKeyName: 'fk_idempotency_keys_report_id';
+            columns: ['report_id'];
+            isOneToOne: false;
+            referencedRelation: 'reports';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
       notes: {
         Row: {
           category_id: string;
@@ -191,37 +269,55 @@ export type Database = {
       };
       report_deliveries: {
         Row: {
+          attempts: number;
           channel: Database['public']['Enums']['delivery_channel_type'];
           created_at: string;
+          dismissed_at: string | null;
           id: string;
+          last_attempt_at: string | null;
+          last_error: string | null;
+          next_attempt_at: string | null;
           opened_at: string | null;
           queued_at: string;
           report_id: string;
           sent_at: string | null;
+          snoozed_until: string | null;
           status: Database['public']['Enums']['delivery_status_type'];
           updated_at: string;
           user_id: string;
         };
         Insert: {
+          attempts?: number;
           channel: Database['public']['Enums']['delivery_channel_type'];
           created_at?: string;
+          dismissed_at?: string | null;
           id?: string;
+          last_attempt_at?: string | null;
+          last_error?: string | null;
+          next_attempt_at?: string | null;
           opened_at?: string | null;
           queued_at?: string;
           report_id: string;
           sent_at?: string | null;
+          snoozed_until?: string | null;
           status?: Database['public']['Enums']['delivery_status_type'];
           updated_at?: string;
           user_id: string;
         };
         Update: {
+          attempts?: number;
           channel?: Database['public']['Enums']['delivery_channel_type'];
           created_at?: string;
+          dismissed_at?: string | null;
           id?: string;
+          last_attempt_at?: string | null;
+          last_error?: string | null;
+          next_attempt_at?: string | null;
           opened_at?: string | null;
           queued_at?: string;
           report_id?: string;
           sent_at?: string | null;
+          snoozed_until?: string | null;
           status?: Database['public']['Enums']['delivery_status_type'];
           updated_at?: string;
           user_id?: string;
@@ -288,6 +384,66 @@ export type Database = {
           },
         ];
       };
+      report_jobs: {
+        Row: {
+          created_at: string;
+          error_code: string | null;
+          error_details: Json | null;
+          error_message: string | null;
+          finished_at: string | null;
+          id: string;
+          idempotency_key: string | null;
+          include_categories: string[];
+          report_id: string | null;
+          started_at: string | null;
+          status: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          error_code?: string | null;
+          error_details?: Json | null;
+          error_message?: string | null;
+          finished_at?: string | null;
+          id?: string;
+          idempotency_key?: string | null;
+          include_categories: string[];
+          report_id?: string | null;
+          started_at?: string | null;
+          status?: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          error_code?: string | null;
+          error_details?: Json | null;
+          error_message?: string | null;
+          finished_at?: string | null;
+          id?: string;
+          idempotency_key?: string | null;
+          include_categories?: string[];
+          report_id?: string | null;
+          started_at?: string | null;
+          status?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'fk_report_jobs_report_id';
+            columns: ['report_id'];
+            isOneToOne: false;
+            referencedRelation: 'report_weeks';
+            referencedColumns: ['report_id'];
+          },
+          {
+            foreignKeyName: 'fk_report_jobs_report_id';
+            columns: ['report_id'];
+            isOneToOne: false;
+            referencedRelation: 'reports';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
       reports: {
         Row: {
           categories_snapshot: Json;
@@ -333,6 +489,36 @@ export type Database = {
         };
         Relationships: [];
       };
+      retention_runs: {
+        Row: {
+          dry_run: boolean;
+          error: string | null;
+          finished_at: string | null;
+          id: string;
+          results: Json;
+          started_at: string;
+          status: string;
+        };
+        Insert: {
+          dry_run?: boolean;
+          error?: string | null;
+          finished_at?: string | null;
+          id?: string;
+          results?: Json;
+          started_at?: string;
+          status?: string;
+        };
+        Update: {
+          dry_run?: boolean;
+          error?: string | null;
+          finished_at?: string | null;
+          id?: string;
+          results?: Json;
+          started_at?: string;
+          status?: string;
+        };
+        Relationships: [];
+      };
     };
     Views: {
       report_weeks: {
@@ -363,7 +549,14 @@ export type Database = {
     };
     Enums: {
       delivery_channel_type: 'in_app' | 'email';
-      delivery_status_type: 'queued' | 'sent' | 'opened';
+      delivery_status_type:
+        | 'queued'
+        | 'sent'
+        | 'opened'
+        | 'retrying'
+        | 'failed'
+        | 'bounced'
+        | 'cancelled';
       generated_by_type: 'scheduled' | 'on_demand';
     };
     CompositeTypes: {
@@ -494,7 +687,15 @@ export const Constants = {
   public: {
     Enums: {
       delivery_channel_type: ['in_app', 'email'],
-      delivery_status_type: ['queued', 'sent', 'opened'],
+      delivery_status_type: [
+        'queued',
+        'sent',
+        'opened',
+        'retrying',
+        'failed',
+        'bounced',
+        'cancelled',
+      ],
       generated_by_type: ['scheduled', 'on_demand'],
     },
   },
@@ -1,5 +1,5 @@
 import dotenv from 'dotenv';
-import { createClient } from '@supabase/supabase-js';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
 import type { Database } from './database.types.js';
 
 dotenv.config({ path: '.env.dev' });
@@ -13,3 +13,10 @@ if (!supabaseUrl || !supabaseServiceKey) {
 
 // Service client for server-side operations with elevated privileges
 export const supabaseClient = createClient<Database>(supabaseUrl, supabaseServiceKey);
+
+// Service client without a shared session, for Supabase Auth calls (sign-up) whose session
+// must not replace the service role key on supabaseClient
+export const createAuthClient = (): SupabaseClient<Database> =>
+  createClient<Database>(supabaseUrl, supabaseServiceKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
@@ -8,8 +8,26 @@ import preferencesRouter from './routes/preferences.router.js';
 import notesRouter from './routes/notes.router.js';
 import categoriesRouter from './routes/categories.router.js';
 import reportsRouter from './routes/reports.router.js';
+import dashboardRouter from './routes/dashboard.router.js';
+import analyticsRouter from './routes/analytics.router.js';
+import reportJobsRouter from './routes/report-jobs.router.js';
 import reportDeliveriesRouter from './routes/report-deliveries.router.js';
 import feedbackRouter from './routes/feedback.router.js';
+import unsubscribeRouter from './routes/unsubscribe.router.js';
+import emailTrackingRouter from './routes/email-tracking.router.js';
+import internalRouter from './routes/internal.router.js';
+import { createJobScheduler } from './services/scheduler.service.js';
+import { reportJobRunner } from './services/report-job-runner.service.js';
+import { getDevAuthConfig, seedDevFixtureUsers } from './services/dev-auth.service.js';
+import { supabaseClient } from './db/supabase.client.js';
+import { recordDomainEventsToAnalytics } from './services/analytics.service.js';
+import { getLlmProvider } from './services/llm.service.js';
+
+// Refuse to start with a misconfigured LLM provider (LLM_PROVIDER, OPENROUTER_API_KEY)
+getLlmProvider();
+
+// Service layer domain events (note/report/delivery/feedback CRUD) -> analytics_events
+recordDomainEventsToAnalytics();
 
 const app = express();
 const PORT = process.env.PORT || 3000;
@@ -26,8 +44,14 @@ app.use('/api/preferences', preferencesRouter);
 app.use('/api/notes', notesRouter);
 app.use('/api/categories', categoriesRouter);
 app.use('/api/reports', reportsRouter);
+app.use('/api/dashboard', dashboardRouter);
+app.use('/api/analytics', analyticsRouter);
+app.use('/api/report-jobs', reportJobsRouter);
 app.use('/api/report-deliveries', reportDeliveriesRouter);
 app.use('/api/feedback', feedbackRouter);
+app.use('/api/unsubscribe', unsubscribeRouter);
+app.use('/api/email-tracking', emailTrackingRouter);
+app.use('/internal', internalRouter);
 
 // Health check route
 app.get('/api/health', (req, res) => {
@@ -55,4 +79,22 @@ app.use((req, res) => {
 
 app.listen(PORT, () => {
   console.log(`✅ Server WEWEWE running on http://localhost:${PORT}`);
+
+  // Continue report jobs queued before a restart
+  reportJobRunner
+    .resumePending()
+    .then((count) => count && console.log(`[INFO] Resumed ${count} queued report jobs`))
+    .catch((err) => console.error('[ERROR] Failed to resume report jobs:', err));
+
+  // Development auth: make sure the fixture users exist (with profiles and preferences)
+  if (getDevAuthConfig()) {
+    seedDevFixtureUsers(supabaseClient)
+      .then((count) => console.log(`[INFO] Dev fixture users ready (${count} created)`))
+      .catch((err) => console.error('[ERROR] Failed to seed dev fixture users:', err));
+  }
+
+  // In-process scheduler (weekly reports, retention cleanup, email deliveries); disable when an external cron calls /internal/cron/**
+  if (process.env.ENABLE_SCHEDULER === 'true') {
+    createJobScheduler().start();
+  }
 });
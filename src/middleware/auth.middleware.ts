@@ -1,76 +1,56 @@
 import { NextFunction, Request, Response } from 'express';
-import { createClient } from '@supabase/supabase-js';
 import { AuthHeaderSchema } from '../validation/auth.js';
-import type { Database } from '../db/database.types.js';
-
-const supabaseUrl = process.env.SUPABASE_URL as string;
-
-if (!supabaseUrl) {
+import { getJwtVerifier, InvalidJwtError } from '../services/jwt-verifier.service.js';
+import {
+  getDevAuthConfig,
+  findDevFixtureUser,
+  isValidDevAuthSecret,
+} from '../services/dev-auth.service.js';
+
+if (!process.env.SUPABASE_URL) {
   throw new Error('Missing SUPABASE_URL env variable');
 }
 
 /**
- * Development mode flag - set to true to skip JWT validation
- * Use X-Mock-User-Id header to specify a mock user ID
- * Default mock user ID: "00000000-0000-0000-0000-000000000001"
+ * Development auth (DEV_AUTH_ENABLED), validated and announced once at boot; the server
+ * refuses to start if it is enabled in an unsafe environment
+ * Requests without Authorization but with X-Dev-Auth-Secret act as the fixture user named
+ * in X-Dev-User (default: DEV_AUTH_DEFAULT_USER)
  */
-const DEV_MODE = process.env.NODE_ENV !== 'production' || process.env.SKIP_AUTH === 'true';
-
-const DEFAULT_MOCK_USER_ID = '00000000-0000-0000-0000-000000000001';
+const devAuth = getDevAuthConfig();
 
 export const authMiddleware = async (req: Request, res: Response, next: NextFunction) => {
   try {
     const authHeader = req.header('Authorization');
+    const devAuthSecret = req.header('X-Dev-Auth-Secret');
 
-    // In development mode, allow requests without valid JWT
-    if (DEV_MODE) {
-      // If auth header exists, try to validate it
-      if (authHeader) {
-        try {
-          const parsedHeader = AuthHeaderSchema.parse(authHeader);
-          const jwt = parsedHeader.split(' ')[1];
-          const serviceKey = process.env.SUPABASE_SERVICE_KEY as string;
-
-          if (serviceKey) {
-            const adminClient = createClient<Database>(supabaseUrl, serviceKey);
-            const {
-              data: { user },
-              error,
-            } = await adminClient.auth.getUser(jwt);
-
-            if (!error && user) {
-              // Valid JWT found
-              req.auth = {
-                userId: user.id,
-                email: user.email ?? '',
-                emailVerified: !!user.email_confirmed_at,
-                jwt,
-              };
-              return next();
-            }
-          }
-        } catch (e) {
-          // Fall through to mock user
-        }
+    if (devAuth && !authHeader && devAuthSecret !== undefined) {
+      if (!isValidDevAuthSecret(devAuth, devAuthSecret)) {
+        return res
+          .status(401)
+          .json({ error: { code: 'DEV_AUTH_INVALID', message: 'Invalid development secret' } });
       }
 
-      // Use mock user for development
-      const mockUserId = req.header('X-Mock-User-Id') || DEFAULT_MOCK_USER_ID;
-      const mockEmail = req.header('X-Mock-Email') || `user-${mockUserId.split('-')[0]}@test.local`;
+      const fixtureName = req.header('X-Dev-User');
+      const fixture = fixtureName ? findDevFixtureUser(fixtureName) : devAuth.defaultUser;
 
-      console.log(`✅ DEV MODE: Using mock user ${mockUserId}`);
+      if (!fixture) {
+        return res.status(401).json({
+          error: { code: 'DEV_AUTH_INVALID', message: `Unknown fixture user: ${fixtureName}` },
+        });
+      }
 
       req.auth = {
-        userId: mockUserId,
-        email: mockEmail,
-        emailVerified: true,
-        jwt: 'mock-jwt-token-dev',
+        userId: fixture.userId,
+        email: fixture.email,
+        emailVerified: fixture.emailVerified,
+        jwt: 'dev-auth-no-jwt',
       };
 
       return next();
     }
 
-    // Production mode: strict JWT validation required
+    // Strict JWT validation
     if (!authHeader) {
       return res.status(401).json({
         error: { code: 'AUTH_HEADER_MISSING', message: 'Authorization header is required' },
@@ -81,35 +61,19 @@ export const authMiddleware = async (req: Request, res: Response, next: NextFunc
     const parsedHeader = AuthHeaderSchema.parse(authHeader);
     const jwt = parsedHeader.split(' ')[1];
 
-    // Validate using Supabase admin API
-    const serviceKey = process.env.SUPABASE_SERVICE_KEY as string;
+    // Verify signature and claims locally; email confirmation comes from Supabase Auth (cached)
+    const user = await getJwtVerifier().verify(jwt);
 
-    if (!serviceKey) {
-      throw new Error('Missing SUPABASE_SERVICE_KEY env variable');
-    }
-
-    const adminClient = createClient<Database>(supabaseUrl, serviceKey);
-
-    const {
-      data: { user },
-      error,
-    } = await adminClient.auth.getUser(jwt);
+    req.auth = { ...user, jwt };
 
-    if (error || !user) {
+    return next();
+  } catch (err) {
+    if (err instanceof InvalidJwtError) {
       return res
         .status(401)
         .json({ error: { code: 'JWT_INVALID', message: 'Invalid credentials' } });
     }
 
-    req.auth = {
-      userId: user.id,
-      email: user.email ?? '',
-      emailVerified: !!user.email_confirmed_at,
-      jwt,
-    };
-
-    return next();
-  } catch (err) {
     if (err instanceof Error) {
       if (err.name === 'ZodError') {
         return res
@@ -124,3 +88,25 @@ export const authMiddleware = async (req: Request, res: Response, next: NextFunc
       .json({ error: { code: 'SERVER_ERROR', message: 'Unexpected authentication error' } });
   }
 };
+
+/**
+ * Guard for routes that require a verified email address (PRD US-001)
+ * Use after authMiddleware; unverified users get 403 EMAIL_NOT_VERIFIED and can still call
+ * /me, sign-out and verification resend
+ */
+export const requireVerifiedEmail = (req: Request, res: Response, next: NextFunction) => {
+  if (!req.auth) {
+    return res.status(401).json({ error: { code: 'JWT_INVALID', message: 'Unauthenticated' } });
+  }
+
+  if (!req.auth.emailVerified) {
+    return res.status(403).json({
+      error: {
+        code: 'EMAIL_NOT_VERIFIED',
+        message: 'Email address must be verified to access this resource',
+      },
+    });
+  }
+
+  return next();
+};
@@ -0,0 +1,36 @@
+import { NextFunction, Request, Response } from 'express';
+import { timingSafeEqual } from 'node:crypto';
+
+const serviceKey = process.env.SUPABASE_SERVICE_KEY as string;
+
+if (!serviceKey) {
+  throw new Error('Missing SUPABASE_SERVICE_KEY env variable');
+}
+
+/**
+ * Guard for /internal/** routes (CRON and operational endpoints)
+ *
+ * Requires the service role key as a Bearer token: these routes run with elevated
+ * privileges and must never be reachable with a user JWT
+ */
+export const internalAuthMiddleware = (req: Request, res: Response, next: NextFunction) => {
+  const authHeader = req.header('Authorization') ?? '';
+  const [scheme, token] = authHeader.split(' ');
+
+  if (scheme !== 'Bearer' || !token || !safeEqual(token, serviceKey)) {
+    return res
+      .status(403)
+      .json({ error: { code: 'FORBIDDEN', message: 'Service role credentials required' } });
+  }
+
+  return next();
+};
+
+/**
+ * Constant-time string comparison (avoids leaking the key through response timing)
+ */
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
@@ -0,0 +1,33 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { authMiddleware, requireVerifiedEmail } from '../middleware/auth.middleware.js';
+import {
+  recordAnalyticsEventsHandler,
+  listAnalyticsEventsHandler,
+} from '../controllers/analytics.controller.js';
+
+const router = Router();
+
+/**
+ * POST /api/analytics/events
+ * Records one event, or a batch of events sent as { events: [...] }
+ * Requires: Authorization header with Bearer token (unverified accounts included, so
+ * sign-up and verification flows can be tracked)
+ */
+router.post('/events', authMiddleware, (req: Request, res: Response, _next: NextFunction) =>
+  recordAnalyticsEventsHandler(req, res, _next)
+);
+
+/**
+ * GET /api/analytics/events
+ * Lists the user's own events
+ * Requires: Authorization header with Bearer token
+ * Query parameters: event_name, from, to, limit, offset
+ */
+router.get(
+  '/events',
+  authMiddleware,
+  requireVerifiedEmail,
+  (req: Request, res: Response, _next: NextFunction) => listAnalyticsEventsHandler(req, res, _next)
+);
+
+export default router;
@@ -1,12 +1,35 @@
 import { Router } from 'express';
 import { authMiddleware } from '../middleware/auth.middleware.js';
-import { getMeHandler, signInHandler } from '../controllers/auth.controller.js';
+import {
+  getMeHandler,
+  signInHandler,
+  signUpHandler,
+  signOutHandler,
+  refreshSessionHandler,
+  forgotPasswordHandler,
+  resetPasswordHandler,
+  resendVerificationHandler,
+} from '../controllers/auth.controller.js';
 
 const router = Router();
 
 // Public endpoint with rate limiting (to prevent brute force attacks)
 router.post('/sign-in', signInHandler);
 
+// Public endpoint: registration with profile and preferences bootstrap
+router.post('/auth/sign-up', signUpHandler);
+
+// Public endpoint: exchanges a refresh token for a new session
+router.post('/auth/refresh', refreshSessionHandler);
+
+// Public endpoints: account recovery (uniform responses, throttled per email address)
+router.post('/auth/password/forgot', forgotPasswordHandler);
+router.post('/auth/password/reset', resetPasswordHandler);
+router.post('/auth/verification/resend', resendVerificationHandler);
+
+// Protected endpoint: revokes the caller's session
+router.post('/auth/sign-out', authMiddleware, signOutHandler);
+
 // Protected endpoint (auth required)
 router.get('/me', authMiddleware, getMeHandler);
 
@@ -0,0 +1,20 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { authMiddleware, requireVerifiedEmail } from '../middleware/auth.middleware.js';
+import { getDashboardHandler } from '../controllers/dashboard.controller.js';
+
+const router = Router();
+
+/**
+ * GET /api/dashboard
+ * Retrieves note counts per active category, the note streak and recent reports
+ * Requires: Authorization header with Bearer token
+ * Query parameters: timezone, since
+ */
+router.get(
+  '/',
+  authMiddleware,
+  requireVerifiedEmail,
+  (req: Request, res: Response, _next: NextFunction) => getDashboardHandler(req, res, _next)
+);
+
+export default router;
@@ -0,0 +1,27 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import {
+  trackOpenHandler,
+  trackReportLinkHandler,
+} from '../controllers/email-tracking.controller.js';
+
+const router = Router();
+
+/**
+ * GET /api/email-tracking/open.gif?token=...
+ * Open tracking pixel embedded in report emails (public, identified by the signed token)
+ * Response: 200 OK with a 1x1 GIF
+ */
+router.get('/open.gif', (req: Request, res: Response, _next: NextFunction) =>
+  trackOpenHandler(req, res, _next)
+);
+
+/**
+ * GET /api/email-tracking/report?token=...
+ * Signed redirect from a report email to the report in the app; counts as an open
+ * Response: 302 Found
+ */
+router.get('/report', (req: Request, res: Response, _next: NextFunction) =>
+  trackReportLinkHandler(req, res, _next)
+);
+
+export default router;
@@ -1,5 +1,5 @@
 import { Router, Request, Response, NextFunction } from 'express';
-import { authMiddleware } from '../middleware/auth.middleware.js';
+import { authMiddleware, requireVerifiedEmail } from '../middleware/auth.middleware.js';
 import { submitFeedbackHandler } from '../controllers/feedback.controller.js';
 
 const router = Router();
@@ -13,8 +13,11 @@ const router = Router();
  * Response: 201 Created (new) or 200 OK (updated)
  * Errors: 400 (validation), 401 (unauthorized), 404 (report not found), 409 (conflict), 500 (server error)
  */
-router.post('/', authMiddleware, (req: Request, res: Response, _next: NextFunction) =>
-  submitFeedbackHandler(req, res, _next)
+router.post(
+  '/',
+  authMiddleware,
+  requireVerifiedEmail,
+  (req: Request, res: Response, _next: NextFunction) => submitFeedbackHandler(req, res, _next)
 );
 
 export default router;
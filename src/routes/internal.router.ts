@@ -0,0 +1,89 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { internalAuthMiddleware } from '../middleware/internal-auth.middleware.js';
+import {
+  listPromptVersionsHandler,
+  listPromptVersionReportsHandler,
+} from '../controllers/prompt-versions.controller.js';
+import {
+  weeklyRunHandler,
+  retentionCleanupHandler,
+  listRetentionRunsHandler,
+  emailDeliveryRunHandler,
+} from '../controllers/cron.controller.js';
+import { getDashboardCacheStatsHandler } from '../controllers/dashboard.controller.js';
+
+/**
+ * Router for internal (service role only) endpoints
+ *
+ * Every route requires Authorization: Bearer <SUPABASE_SERVICE_KEY>
+ */
+const router = Router();
+
+router.use(internalAuthMiddleware);
+
+/**
+ * GET /internal/prompt-versions
+ * Lists report prompt versions with pin status, report counts and feedback statistics
+ */
+router.get('/prompt-versions', (req: Request, res: Response, _next: NextFunction) =>
+  listPromptVersionsHandler(req, res, _next)
+);
+
+/**
+ * GET /internal/prompt-versions/{version}/reports
+ * Lists reports produced by a prompt version with their feedback
+ * Query parameters: limit, offset
+ */
+router.get(
+  '/prompt-versions/:version/reports',
+  (req: Request, res: Response, _next: NextFunction) =>
+    listPromptVersionReportsHandler(req, res, _next)
+);
+
+/**
+ * POST /internal/cron/reports/weekly-run
+ * Generates scheduled weekly reports for users whose report day/hour matches now
+ * Request Body: { now?: ISO datetime }
+ * Response: 202 Accepted with run summary
+ */
+router.post('/cron/reports/weekly-run', (req: Request, res: Response, _next: NextFunction) =>
+  weeklyRunHandler(req, res, _next)
+);
+
+/**
+ * POST /internal/cron/retention/cleanup
+ * Hard-deletes data older than 6 months (and report PDFs); logged in retention_runs
+ * Request Body: { dry_run?: boolean }
+ * Response: 202 Accepted with per-table counts
+ */
+router.post('/cron/retention/cleanup', (req: Request, res: Response, _next: NextFunction) =>
+  retentionCleanupHandler(req, res, _next)
+);
+
+/**
+ * GET /internal/retention/runs
+ * Lists recorded retention runs, newest first
+ * Query parameters: limit, offset
+ */
+router.get('/retention/runs', (req: Request, res: Response, _next: NextFunction) =>
+  listRetentionRunsHandler(req, res, _next)
+);
+
+/**
+ * POST /internal/cron/deliveries/email-run
+ * Sends due queued email deliveries (retrying failed ones with backoff)
+ * Response: 202 Accepted with run summary
+ */
+router.post('/cron/deliveries/email-run', (req: Request, res: Response, _next: NextFunction) =>
+  emailDeliveryRunHandler(req, res, _next)
+);
+
+/**
+ * GET /internal/dashboard-cache/stats
+ * Reports dashboard cache hit/miss/invalidation counters of this instance
+ */
+router.get('/dashboard-cache/stats', (req: Request, res: Response, _next: NextFunction) =>
+  getDashboardCacheStatsHandler(req, res, _next)
+);
+
+export default router;
@@ -1,5 +1,5 @@
 import { Router, Request, Response, NextFunction } from 'express';
-import { authMiddleware } from '../middleware/auth.middleware.js';
+import { authMiddleware, requireVerifiedEmail } from '../middleware/auth.middleware.js';
 import {
   listNotesHandler,
   createNoteHandler,
@@ -16,8 +16,11 @@ const router = Router();
  * Requires: Authorization header with Bearer token
  * Query parameters: category_id, from, to, include_deleted, limit, offset, sort
  */
-router.get('/', authMiddleware, (req: Request, res: Response, next: NextFunction) =>
-  listNotesHandler(req, res, next)
+router.get(
+  '/',
+  authMiddleware,
+  requireVerifiedEmail,
+  (req: Request, res: Response, next: NextFunction) => listNotesHandler(req, res, next)
 );
 
 /**
@@ -25,8 +28,11 @@ router.get('/', authMiddleware, (req: Request, res: Response, next: NextFunction
  * Retrieves a single note by ID for the authenticated user (owner only)
  * Requires: Authorization header with Bearer token
  */
-router.get('/:id', authMiddleware, (req: Request, res: Response, next: NextFunction) =>
-  getNoteHandler(req, res, next)
+router.get(
+  '/:id',
+  authMiddleware,
+  requireVerifiedEmail,
+  (req: Request, res: Response, next: NextFunction) => getNoteHandler(req, res, next)
 );
 
 /**
@@ -34,8 +40,11 @@ router.get('/:id', authMiddleware, (req: Request, res: Response, next: NextFunct
  * Creates a new note for the authenticated user
  * Requires: Authorization header with Bearer token
  */
-router.post('/', authMiddleware, (req: Request, res: Response, next: NextFunction) =>
-  createNoteHandler(req, res, next)
+router.post(
+  '/',
+  authMiddleware,
+  requireVerifiedEmail,
+  (req: Request, res: Response, next: NextFunction) => createNoteHandler(req, res, next)
 );
 
 /**
@@ -46,8 +55,11 @@ router.post('/', authMiddleware, (req: Request, res: Response, next: NextFunctio
  * Requires: Authorization header with Bearer token
  * Response: Updated NoteDto on success, error on validation/authorization failure
  */
-router.patch('/:id', authMiddleware, (req: Request, res: Response, next: NextFunction) =>
-  updateNoteHandler(req, res, next)
+router.patch(
+  '/:id',
+  authMiddleware,
+  requireVerifiedEmail,
+  (req: Request, res: Response, next: NextFunction) => updateNoteHandler(req, res, next)
 );
 
 /**
@@ -55,8 +67,11 @@ router.patch('/:id', authMiddleware, (req: Request, res: Response, next: NextFun
  * Soft-delete a note for the authenticated user
  * Requires: Authorization header with Bearer token
  */
-router.delete('/:id', authMiddleware, (req: Request, res: Response, next: NextFunction) =>
-  deleteNoteHandler(req, res, next)
+router.delete(
+  '/:id',
+  authMiddleware,
+  requireVerifiedEmail,
+  (req: Request, res: Response, next: NextFunction) => deleteNoteHandler(req, res, next)
 );
 
 export default router;
@@ -1,8 +1,9 @@
 import { Router } from 'express';
-import { authMiddleware } from '../middleware/auth.middleware.js';
+import { authMiddleware, requireVerifiedEmail } from '../middleware/auth.middleware.js';
 import {
   updatePreferencesHandler,
   getPreferencesHandler,
+  resubscribeEmailHandler,
 } from '../controllers/preferences.controller.js';
 
 const router = Router();
@@ -12,13 +13,20 @@ const router = Router();
  * Retrieve current user's preferences
  * @requires Authorization header with valid JWT
  */
-router.get('/', authMiddleware, getPreferencesHandler);
+router.get('/', authMiddleware, requireVerifiedEmail, getPreferencesHandler);
 
 /**
  * PUT /api/preferences
  * Update user preferences for reports, delivery channels, and daily note constraints
  * @requires Authorization header with valid JWT
  */
-router.put('/', authMiddleware, updatePreferencesHandler);
+router.put('/', authMiddleware, requireVerifiedEmail, updatePreferencesHandler);
+
+/**
+ * POST /api/preferences/email-resubscribe
+ * Reverse an unsubscribe from report emails (clears email_unsubscribed_at)
+ * @requires Authorization header with valid JWT
+ */
+router.post('/email-resubscribe', authMiddleware, requireVerifiedEmail, resubscribeEmailHandler);
 
 export default router;
@@ -1,8 +1,11 @@
 import { Router, Request, Response, NextFunction } from 'express';
-import { authMiddleware } from '../middleware/auth.middleware.js';
+import { authMiddleware, requireVerifiedEmail } from '../middleware/auth.middleware.js';
 import {
   listReportDeliveriesHandler,
   markOpenedHandler,
+  getInboxHandler,
+  dismissDeliveryHandler,
+  snoozeDeliveryHandler,
 } from '../controllers/report-deliveries.controller.js';
 
 const router = Router();
@@ -13,8 +16,23 @@ const router = Router();
  * Requires: Authorization header with Bearer token
  * Query parameters: report_id, channel, status, limit, offset
  */
-router.get('/', authMiddleware, (req: Request, res: Response, _next: NextFunction) =>
-  listReportDeliveriesHandler(req, res, _next)
+router.get(
+  '/',
+  authMiddleware,
+  requireVerifiedEmail,
+  (req: Request, res: Response, _next: NextFunction) => listReportDeliveriesHandler(req, res, _next)
+);
+
+/**
+ * GET /api/report-deliveries/inbox
+ * Retrieves unopened in_app deliveries with report metadata for the in-app banner
+ * Requires: Authorization header with Bearer token
+ */
+router.get(
+  '/inbox',
+  authMiddleware,
+  requireVerifiedEmail,
+  (req: Request, res: Response, _next: NextFunction) => getInboxHandler(req, res, _next)
 );
 
 /**
@@ -26,7 +44,35 @@ router.get('/', authMiddleware, (req: Request, res: Response, _next: NextFunctio
 router.post(
   '/:id/mark-opened',
   authMiddleware,
+  requireVerifiedEmail,
   (req: Request, res: Response, _next: NextFunction) => markOpenedHandler(req, res, _next)
 );
 
+/**
+ * POST /api/report-deliveries/{id}/dismiss
+ * Hides an in_app delivery from the inbox for good
+ * Requires: Authorization header with Bearer token
+ * Path parameters: id (UUID of the in_app delivery)
+ */
+router.post(
+  '/:id/dismiss',
+  authMiddleware,
+  requireVerifiedEmail,
+  (req: Request, res: Response, _next: NextFunction) => dismissDeliveryHandler(req, res, _next)
+);
+
+/**
+ * POST /api/report-deliveries/{id}/snooze
+ * Hides an in_app delivery from the inbox until the given time
+ * Requires: Authorization header with Bearer token
+ * Path parameters: id (UUID of the in_app delivery)
+ * Body: { until } (ISO datetime, at most 7 days ahead)
+ */
+router.post(
+  '/:id/snooze',
+  authMiddleware,
+  requireVerifiedEmail,
+  (req: Request, res: Response, _next: NextFunction) => snoozeDeliveryHandler(req, res, _next)
+);
+
 export default router;
@@ -0,0 +1,38 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { authMiddleware, requireVerifiedEmail } from '../middleware/auth.middleware.js';
+import {
+  getReportJobHandler,
+  streamReportJobEventsHandler,
+} from '../controllers/report-jobs.controller.js';
+
+const router = Router();
+
+/**
+ * GET /api/report-jobs/{id}
+ * Retrieves the state of an on-demand report generation job (owner only)
+ * Requires: Authorization header with Bearer token
+ * Response: 200 OK with ReportJobDto (queued/running/succeeded/failed, report_id, error)
+ */
+router.get(
+  '/:id',
+  authMiddleware,
+  requireVerifiedEmail,
+  (req: Request, res: Response, _next: NextFunction) => getReportJobHandler(req, res, _next)
+);
+
+/**
+ * GET /api/report-jobs/{id}/events
+ * Streams report generation progress as Server-Sent Events (owner only)
+ * Requires: Authorization header with Bearer token (use a fetch-based EventSource client)
+ * Optional: Last-Event-ID header to resume after a reconnect
+ * Response: text/event-stream; ends after the job succeeds or fails
+ */
+router.get(
+  '/:id/events',
+  authMiddleware,
+  requireVerifiedEmail,
+  (req: Request, res: Response, _next: NextFunction) =>
+    streamReportJobEventsHandler(req, res, _next)
+);
+
+export default router;
@@ -1,11 +1,14 @@
 import { Router, Request, Response, NextFunction } from 'express';
-import { authMiddleware } from '../middleware/auth.middleware.js';
+import { authMiddleware, requireVerifiedEmail } from '../middleware/auth.middleware.js';
 import {
   listReportsHandler,
   getReportHandler,
   generateReportHandler,
   deleteReportHandler,
+  previewReportEmailHandler,
+  getReportPdfHandler,
 } from '../controllers/reports.controller.js';
+import { queueEmailDeliveryHandler } from '../controllers/report-deliveries.controller.js';
 
 const router = Router();
 
@@ -15,8 +18,11 @@ const router = Router();
  * Requires: Authorization header with Bearer token
  * Query parameters: week_start_local, generated_by, include_deleted, limit, offset, sort
  */
-router.get('/', authMiddleware, (req: Request, res: Response, _next: NextFunction) =>
-  listReportsHandler(req, res, _next)
+router.get(
+  '/',
+  authMiddleware,
+  requireVerifiedEmail,
+  (req: Request, res: Response, _next: NextFunction) => listReportsHandler(req, res, _next)
 );
 
 /**
@@ -24,20 +30,68 @@ router.get('/', authMiddleware, (req: Request, res: Response, _next: NextFunctio
  * Retrieves a single report by ID for the authenticated user (owner only)
  * Requires: Authorization header with Bearer token
  */
-router.get('/:id', authMiddleware, (req: Request, res: Response, _next: NextFunction) =>
-  getReportHandler(req, res, _next)
+router.get(
+  '/:id',
+  authMiddleware,
+  requireVerifiedEmail,
+  (req: Request, res: Response, _next: NextFunction) => getReportHandler(req, res, _next)
 );
 
 /**
  * POST /api/reports/generate
- * Generate a new on-demand report for the authenticated user
+ * Enqueue generation of a new on-demand report for the authenticated user
  * Requires: Authorization header with Bearer token
  * Optional: Idempotency-Key header for deduplication
  * Request Body: { include_categories: UUID[] }
- * Response: 201 Created with full ReportDto
+ * Response: 202 Accepted with ReportJobDto (poll GET /api/report-jobs/{id}
+ * or stream progress from GET /api/report-jobs/{id}/events)
  */
-router.post('/generate', authMiddleware, (req: Request, res: Response, _next: NextFunction) =>
-  generateReportHandler(req, res, _next)
+router.post(
+  '/generate',
+  authMiddleware,
+  requireVerifiedEmail,
+  (req: Request, res: Response, _next: NextFunction) => generateReportHandler(req, res, _next)
+);
+
+/**
+ * GET /api/reports/{id}/email-preview
+ * Renders the email that would be sent for a report (owner only)
+ * Requires: Authorization header with Bearer token
+ * Query parameters: format ('html' default, 'text' or 'json')
+ */
+router.get(
+  '/:id/email-preview',
+  authMiddleware,
+  requireVerifiedEmail,
+  (req: Request, res: Response, _next: NextFunction) => previewReportEmailHandler(req, res, _next)
+);
+
+/**
+ * GET /api/reports/{id}/pdf
+ * Downloads a report as PDF (owner only)
+ * Requires: Authorization header with Bearer token
+ * Response: 200 OK with application/pdf attachment
+ */
+router.get(
+  '/:id/pdf',
+  authMiddleware,
+  requireVerifiedEmail,
+  (req: Request, res: Response, _next: NextFunction) => getReportPdfHandler(req, res, _next)
+);
+
+/**
+ * POST /api/reports/{id}/deliveries/email
+ * Queue (or re-send after a failure) an email copy of a report for the authenticated user
+ * Requires: Authorization header with Bearer token
+ * Response: 202 Accepted with { delivery: { id, status, channel } }
+ * Errors: 400 (invalid UUID), 401, 404 (report not found), 409 (already queued/sent),
+ *         422 (email not preferred or unsubscribed)
+ */
+router.post(
+  '/:id/deliveries/email',
+  authMiddleware,
+  requireVerifiedEmail,
+  (req: Request, res: Response, _next: NextFunction) => queueEmailDeliveryHandler(req, res, _next)
 );
 
 /**
@@ -47,8 +101,11 @@ router.post('/generate', authMiddleware, (req: Request, res: Response, _next: Ne
  * Response: 204 No Content on success
  * Errors: 400 (invalid UUID), 401 (unauthorized), 404 (not found), 500 (server error)
  */
-router.delete('/:id', authMiddleware, (req: Request, res: Response, _next: NextFunction) =>
-  deleteReportHandler(req, res, _next)
+router.delete(
+  '/:id',
+  authMiddleware,
+  requireVerifiedEmail,
+  (req: Request, res: Response, _next: NextFunction) => deleteReportHandler(req, res, _next)
 );
 
 export default router;
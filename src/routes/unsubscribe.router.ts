@@ -0,0 +1,31 @@
+import express, { Router, Request, Response, NextFunction } from 'express';
+import {
+  getUnsubscribeStatusHandler,
+  unsubscribeHandler,
+} from '../controllers/unsubscribe.controller.js';
+
+const router = Router();
+
+// Mail clients send the RFC 8058 one-click request form encoded
+router.use(express.urlencoded({ extended: false }));
+
+/**
+ * GET /api/unsubscribe?token=...
+ * Checks an unsubscribe link (public, identified by the signed token)
+ * Response: 200 OK with EmailSubscriptionStatusDto
+ */
+router.get('/', (req: Request, res: Response, _next: NextFunction) =>
+  getUnsubscribeStatusHandler(req, res, _next)
+);
+
+/**
+ * POST /api/unsubscribe?token=...
+ * Unsubscribes from report emails (public, identified by the signed token)
+ * Target of the List-Unsubscribe header; accepts `List-Unsubscribe=One-Click` (RFC 8058)
+ * Response: 200 OK with UnsubscribeResponseDto
+ */
+router.post('/', (req: Request, res: Response, _next: NextFunction) =>
+  unsubscribeHandler(req, res, _next)
+);
+
+export default router;
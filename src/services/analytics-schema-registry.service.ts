@@ -0,0 +1,188 @@
+import { z } from 'zod';
+import type { Json } from '../db/database.types.js';
+import type { AnalyticsEventDto } from '../types.js';
+import { ANALYTICS_EVENT_SCHEMAS } from '../config/analytics-events.js';
+
+export type AnalyticsProperties = { [key: string]: Json | undefined };
+
+/**
+ * Properties schema of one analytics event at one schema_version
+ *
+ * Versions of an event are numbered 1, 2, ... without gaps; every version after the first
+ * provides `upgrade`, converting properties of the previous version into its own shape
+ */
+export type AnalyticsEventSchema = {
+  name: string;
+  version: number;
+  /** Who records the event: the web client, or the API from domain events (reserved) */
+  source: 'web' | 'api';
+  description: string;
+  properties: z.ZodType<AnalyticsProperties, z.ZodTypeDef, unknown>;
+  upgrade?: (previous: AnalyticsProperties) => AnalyticsProperties;
+};
+
+/**
+ * Outcome of checking an event against the registry
+ */
+export type AnalyticsEventValidation =
+  | { status: 'valid'; version: number; properties: AnalyticsProperties }
+  | {
+      status: 'invalid';
+      reason: 'unknown_event' | 'reserved_event' | 'unknown_schema_version' | 'invalid_properties';
+      version: number | null;
+      details: Record<string, string>;
+    };
+
+/**
+ * AnalyticsSchemaRegistry holds the known analytics events with a zod schema per version
+ *
+ * Incoming events are validated against the schema of the version they declare (the latest
+ * when they declare none); stored events of older versions are upgraded step by step when
+ * read, so consumers only ever see the latest shape
+ */
+export class AnalyticsSchemaRegistry {
+  private schemas = new Map<string, AnalyticsEventSchema[]>();
+
+  /**
+   * Register the next version of an event; versions must be added in order and keep the
+   * source of the first one
+   */
+  register(schema: AnalyticsEventSchema): void {
+    const versions = this.schemas.get(schema.name) ?? [];
+    const expected = versions.length + 1;
+
+    if (schema.version !== expected) {
+      throw new Error(
+        `Analytics event ${schema.name}@${schema.version} registered out of order (expected version ${expected})`
+      );
+    }
+    if (schema.version > 1 && !schema.upgrade) {
+      throw new Error(`Analytics event ${schema.name}@${schema.version} needs an upgrade function`);
+    }
+    if (versions.length > 0 && versions[0].source !== schema.source) {
+      throw new Error(
+        `Analytics event ${schema.name}@${schema.version} changes source (was ${versions[0].source})`
+      );
+    }
+
+    versions.push(schema);
+    this.schemas.set(schema.name, versions);
+  }
+
+  /**
+   * Latest version of an event, or null if the event is not registered
+   */
+  latestVersion(name: string): number | null {
+    return this.schemas.get(name)?.length || null;
+  }
+
+  /**
+   * Registered events with all their versions
+   */
+  list(): AnalyticsEventSchema[] {
+    return [...this.schemas.values()].flat();
+  }
+
+  /**
+   * Check the properties of an event against the schema of its version
+   *
+   * @param name - event_name
+   * @param version - schema_version declared by the sender (latest when undefined)
+   * @param properties - Properties sent
+   * @param source - Who sends the event; events of the other source are refused
+   * @returns Parsed properties, or why the event does not match the registry
+   */
+  validate(
+    name: string,
+    version: number | undefined,
+    properties: AnalyticsProperties,
+    source: 'web' | 'api' = 'web'
+  ): AnalyticsEventValidation {
+    const versions = this.schemas.get(name);
+    if (!versions) {
+      return {
+        status: 'invalid',
+        reason: 'unknown_event',
+        version: version ?? null,
+        details: { event_name: `Unknown event name "${name}"` },
+      };
+    }
+
+    if (versions[0].source !== source) {
+      return {
+        status: 'invalid',
+        reason: 'reserved_event',
+        version: version ?? null,
+        details: { event_name: `${name} can only be recorded with source "${versions[0].source}"` },
+      };
+    }
+
+    const resolved = version ?? versions.length;
+    const schema = versions[resolved - 1];
+    if (!schema) {
+      return {
+        status: 'invalid',
+        reason: 'unknown_schema_version',
+        version: resolved,
+        details: {
+          schema_version: `${name} has schema versions 1 to ${versions.length}`,
+        },
+      };
+    }
+
+    const result = schema.properties.safeParse(properties);
+    if (!result.success) {
+      return {
+        status: 'invalid',
+        reason: 'invalid_properties',
+        version: resolved,
+        details: Object.fromEntries(
+          result.error.errors.map((err) => [['properties', ...err.path].join('.'), err.message])
+        ),
+      };
+    }
+
+    return { status: 'valid', version: resolved, properties: result.data };
+  }
+
+  /**
+   * Bring a stored event to the latest version of its schema
+   *
+   * Unregistered events, and events whose stored version is unknown, are returned unchanged;
+   * an upgrade that throws leaves the event at the version it had reached
+   */
+  upgrade(event: AnalyticsEventDto): AnalyticsEventDto {
+    const versions = this.schemas.get(event.event_name);
+    if (!versions || event.schema_version < 1 || event.schema_version >= versions.length) {
+      return event;
+    }
+
+    let version = event.schema_version;
+    let properties = (event.properties ?? {}) as AnalyticsProperties;
+
+    try {
+      for (; version < versions.length; version++) {
+        properties = versions[version].upgrade!(properties);
+      }
+    } catch (err) {
+      console.warn(
+        `[WARN] Failed to upgrade analytics event ${event.id} (${event.event_name}@${version}): ${err instanceof Error ? err.message : String(err)}`
+      );
+    }
+
+    return { ...event, schema_version: version, properties };
+  }
+}
+
+/**
+ * Build the registry with all bundled event schemas
+ */
+export function createAnalyticsSchemaRegistry(
+  schemas: AnalyticsEventSchema[] = ANALYTICS_EVENT_SCHEMAS
+): AnalyticsSchemaRegistry {
+  const registry = new AnalyticsSchemaRegistry();
+  schemas.forEach((schema) => registry.register(schema));
+  return registry;
+}
+
+export const analyticsSchemaRegistry = createAnalyticsSchemaRegistry();
@@ -0,0 +1,315 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, TablesInsert } from '../db/database.types.js';
+import type { UUID, AnalyticsEventsListResponseDto } from '../types.js';
+import type {
+  RecordAnalyticsEventCommand,
+  ListAnalyticsEventsQuery,
+} from '../validation/analytics.js';
+import { supabaseClient } from '../db/supabase.client.js';
+import { domainEvents, type DomainEvent, type DomainEventBus } from './domain-events.service.js';
+import {
+  analyticsSchemaRegistry,
+  type AnalyticsSchemaRegistry,
+} from './analytics-schema-registry.service.js';
+
+/**
+ * What happens to client events that do not match the schema registry
+ * - reject: the whole request fails with the validation errors
+ * - quarantine: they are stored in analytics_event_quarantine, valid events are recorded
+ *
+ * Events whose name is reserved for the API are rejected under both policies
+ */
+export type InvalidAnalyticsEventPolicy = 'reject' | 'quarantine';
+
+/**
+ * Custom error for client events rejected by the schema registry
+ * failures lists field-level errors per index of the submitted events
+ */
+export class InvalidAnalyticsEventsError extends Error {
+  constructor(public readonly failures: { index: number; details: Record<string, string> }[]) {
+    super(`${failures.length} analytics events do not match the event schema registry`);
+    this.name = 'InvalidAnalyticsEventsError';
+  }
+}
+
+/**
+ * Read the invalid event policy from configuration
+ *
+ * Environment:
+ * - ANALYTICS_INVALID_EVENTS: 'reject' (default) or 'quarantine'
+ */
+export function invalidAnalyticsEventPolicyFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): InvalidAnalyticsEventPolicy {
+  const policy = (env.ANALYTICS_INVALID_EVENTS || 'reject').toLowerCase();
+
+  if (policy !== 'reject' && policy !== 'quarantine') {
+    throw new Error(
+      `Unknown ANALYTICS_INVALID_EVENTS "${policy}" (expected 'reject' or 'quarantine')`
+    );
+  }
+
+  return policy;
+}
+
+/**
+ * AnalyticsService records and lists analytics events of a user
+ *
+ * Client events are always stored for the authenticated user (user_id is never taken from
+ * the request) as source 'web' with a server-side created_at; source 'api' is reserved for
+ * events the server records itself. Client events are checked against the schema
+ * registry on the way in, and stored events are upgraded to the latest schema version on
+ * the way out. Uses user-scoped Supabase clients to enforce Row-Level Security (RLS)
+ */
+export class AnalyticsService {
+  /**
+   * Initialize service with Supabase client
+   * @param userClient - User-scoped Supabase client (for RLS enforcement via JWT)
+   * @param registry - Known events and their property schemas per version
+   * @param invalidEventPolicy - Reject or quarantine events not matching the registry
+   */
+  constructor(
+    private userClient: SupabaseClient<Database>,
+    private registry: AnalyticsSchemaRegistry = analyticsSchemaRegistry,
+    private invalidEventPolicy: InvalidAnalyticsEventPolicy = invalidAnalyticsEventPolicyFromEnv()
+  ) {}
+
+  /**
+   * Record a batch of client events
+   *
+   * Every event is validated against the registry first. With the 'reject' policy one invalid
+   * event rejects the batch and nothing is stored; with 'quarantine' invalid events are stored
+   * in analytics_event_quarantine and the others are recorded (all or nothing per table).
+   * An event name reserved for the API rejects the batch under both policies
+   *
+   * @param userId - UUID of the authenticated user
+   * @param events - Events with a validated envelope
+   * @returns Ids of the recorded events in the order of events (null for quarantined ones)
+   *   and the number of quarantined events
+   * @throws InvalidAnalyticsEventsError if an event is invalid and the policy is 'reject', or
+   *   an event name is reserved for the API
+   * @throws Error for unexpected database errors
+   */
+  async recordEvents(
+    userId: UUID,
+    events: RecordAnalyticsEventCommand[]
+  ): Promise<{ ids: (number | null)[]; quarantined: number }> {
+    const accepted: { index: number; row: TablesInsert<'analytics_events'> }[] = [];
+    const quarantined: TablesInsert<'analytics_event_quarantine'>[] = [];
+    const failures: InvalidAnalyticsEventsError['failures'] = [];
+    let reserved = false;
+
+    events.forEach((event, index) => {
+      const result = this.registry.validate(
+        event.event_name,
+        event.schema_version,
+        event.properties,
+        'web'
+      );
+
+      if (result.status === 'valid') {
+        accepted.push({
+          index,
+          row: {
+            user_id: userId,
+            event_name: event.event_name,
+            source: 'web',
+            schema_version: result.version,
+            properties: result.properties,
+          },
+        });
+        return;
+      }
+
+      failures.push({ index, details: result.details });
+      reserved = reserved || result.reason === 'reserved_event';
+      quarantined.push({
+        user_id: userId,
+        event_name: event.event_name,
+        source: 'web',
+        schema_version: result.version,
+        properties: event.properties,
+        reason: result.reason,
+        details: result.details,
+      });
+    });
+
+    // Reserved names are forgery attempts, not schema drift: never quarantined
+    if (failures.length > 0 && (this.invalidEventPolicy === 'reject' || reserved)) {
+      throw new InvalidAnalyticsEventsError(failures);
+    }
+
+    // Quarantine first: if it fails nothing was recorded and the client can retry the batch
+    if (quarantined.length > 0) {
+      const { error } = await this.userClient
+        .from('analytics_event_quarantine')
+        .insert(quarantined);
+
+      if (error) {
+        console.error('AnalyticsService.recordEvents quarantine error:', error);
+        throw new Error(`Failed to quarantine analytics events: ${error.message}`);
+      }
+
+      console.warn(
+        `[WARN] Quarantined ${quarantined.length} analytics events of user ${userId}: ${[
+          ...new Set(quarantined.map((row) => `${row.event_name} (${row.reason})`)),
+        ].join(', ')}`
+      );
+    }
+
+    const ids: (number | null)[] = events.map(() => null);
+
+    if (accepted.length > 0) {
+      const { data, error } = await this.userClient
+        .from('analytics_events')
+        .insert(accepted.map(({ row }) => row))
+        .select('id');
+
+      if (error) {
+        console.error('AnalyticsService.recordEvents error:', error);
+        throw new Error(`Failed to record analytics events: ${error.message}`);
+      }
+
+      if (!data || data.length !== accepted.length) {
+        throw new Error('Failed to record analytics events: unexpected insert result');
+      }
+
+      accepted.forEach(({ index }, position) => {
+        ids[index] = data[position].id;
+      });
+    }
+
+    return { ids, quarantined: quarantined.length };
+  }
+
+  /**
+   * List events of the authenticated user, newest first
+   *
+   * @param userId - UUID of the authenticated user
+   * @param query - ListAnalyticsEventsQuery with optional event_name, from, to, limit, offset
+   * @returns AnalyticsEventsListResponseDto with paginated events
+   * @throws Error for unexpected database errors
+   */
+  async listEvents(
+    userId: UUID,
+    query: ListAnalyticsEventsQuery
+  ): Promise<AnalyticsEventsListResponseDto> {
+    const { event_name, from, to, limit = 20, offset = 0 } = query;
+
+    let dbQuery = this.userClient
+      .from('analytics_events')
+      .select('*', { count: 'exact' })
+      .eq('user_id', userId);
+
+    if (event_name) {
+      dbQuery = dbQuery.eq('event_name', event_name);
+    }
+
+    if (from) {
+      dbQuery = dbQuery.gte('created_at', from);
+    }
+
+    if (to) {
+      dbQuery = dbQuery.lte('created_at', to);
+    }
+
+    const { data, error, count } = await dbQuery
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      console.error('AnalyticsService.listEvents error:', error);
+      throw new Error(`Failed to retrieve analytics events: ${error.message}`);
+    }
+
+    // Stored events keep the version they were sent with; consumers get the latest shape
+    return {
+      items: (data || []).map((event) => this.registry.upgrade(event)),
+      total: count ?? 0,
+      limit,
+      offset,
+    };
+  }
+}
+
+/**
+ * AnalyticsEventRecorder persists domain events to analytics_events (source 'api')
+ *
+ * Events are buffered and inserted in batches with the service role client, off the request
+ * path; a failed insert is logged and its events are dropped
+ */
+export class AnalyticsEventRecorder {
+  private queue: TablesInsert<'analytics_events'>[] = [];
+  private timer: NodeJS.Timeout | null = null;
+
+  /**
+   * @param adminClient - Admin Supabase client (events of any user, including cron runs)
+   * @param flushDelayMs - How long events are buffered before being written
+   * @param maxBatchSize - Buffered events that trigger an immediate write
+   */
+  constructor(
+    private adminClient: SupabaseClient<Database> = supabaseClient,
+    private flushDelayMs: number = 1000,
+    private maxBatchSize: number = 100
+  ) {}
+
+  /**
+   * Buffer a domain event (listener for DomainEventBus.subscribe)
+   */
+  record = (event: DomainEvent): void => {
+    this.queue.push({
+      user_id: event.userId,
+      event_name: event.name,
+      source: 'api',
+      schema_version: analyticsSchemaRegistry.latestVersion(event.name) ?? 1,
+      properties: event.properties,
+      created_at: event.occurredAt,
+    });
+
+    if (this.queue.length >= this.maxBatchSize) {
+      void this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => void this.flush(), this.flushDelayMs);
+      this.timer.unref();
+    }
+  };
+
+  /**
+   * Write all buffered events
+   */
+  async flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    while (this.queue.length > 0) {
+      const batch = this.queue.splice(0, this.maxBatchSize);
+
+      let failure: string | null;
+      try {
+        const { error } = await this.adminClient.from('analytics_events').insert(batch);
+        failure = error ? error.message : null;
+      } catch (err) {
+        failure = err instanceof Error ? err.message : String(err);
+      }
+
+      if (failure) {
+        console.warn(`[WARN] Failed to record ${batch.length} analytics events: ${failure}`);
+      }
+    }
+  }
+}
+
+/**
+ * Persist domain events published on the bus to analytics_events
+ *
+ * @returns Function stopping the recording
+ */
+export function recordDomainEventsToAnalytics(
+  bus: DomainEventBus = domainEvents,
+  recorder: AnalyticsEventRecorder = new AnalyticsEventRecorder()
+): () => void {
+  return bus.subscribe(recorder.record);
+}
@@ -1,13 +1,69 @@
-import { supabaseClient } from '../db/supabase.client.js';
-import type { SignInResponseDto } from '../types.js';
+import { isAuthApiError, isAuthError } from '@supabase/supabase-js';
+import { supabaseClient, createAuthClient } from '../db/supabase.client.js';
+import type { SignInResponseDto, SignInSessionDto, SignUpResponseDto } from '../types.js';
+import { publicUrlsFromEnv } from '../config/public-urls.js';
+import { ProfileService } from './profile.service.js';
+import { PreferencesService } from './preferences.service.js';
+import { getEmailThrottle, type EmailThrottle } from './email-throttle.service.js';
+
+/**
+ * Custom error for sign-up with an email address that already has an account
+ */
+export class EmailAlreadyRegisteredError extends Error {
+  constructor() {
+    super('Email address is already registered');
+    this.name = 'EmailAlreadyRegisteredError';
+  }
+}
+
+/**
+ * Custom error for refresh tokens that are unknown, already used or belong to an ended session
+ */
+export class InvalidRefreshTokenError extends Error {
+  constructor() {
+    super('Refresh token is invalid or expired');
+    this.name = 'InvalidRefreshTokenError';
+  }
+}
+
+/**
+ * Custom error for password reset tokens that are invalid, already used or expired
+ */
+export class InvalidResetTokenError extends Error {
+  constructor() {
+    super('Password reset token is invalid or expired');
+    this.name = 'InvalidResetTokenError';
+  }
+}
+
+/**
+ * Custom error for a new password rejected by Supabase during a password reset
+ * The one-time reset token is already used up at that point, so the user needs a new link
+ */
+export class ResetPasswordRejectedError extends Error {
+  constructor(public readonly reason: string) {
+    super(`New password was rejected: ${reason}`);
+    this.name = 'ResetPasswordRejectedError';
+  }
+}
 
 /**
  * AuthService handles user authentication operations
- * Responsible for sign-in logic and interaction with Supabase Auth
+ * Responsible for sign-in, sign-up, session and account recovery logic and interaction
+ * with Supabase Auth
  */
 export class AuthService {
   private supabase = supabaseClient;
 
+  /**
+   * @param throttle - Per-address limit on password reset and verification emails
+   * @param env - Environment providing the app URL that email links return to
+   */
+  constructor(
+    private throttle: EmailThrottle = getEmailThrottle(),
+    private env: NodeJS.ProcessEnv = process.env
+  ) {}
+
   /**
    * Sign in a user with email and password
    * @param email - User's email address
@@ -44,4 +100,215 @@ export class AuthService {
       },
     };
   }
+
+  /**
+   * Register a user with email and password and bootstrap their profile and preferences
+   *
+   * If the profile or preferences cannot be created the auth user is deleted again, so a
+   * failed sign-up can be retried with the same email address
+   *
+   * @param email - User's email address
+   * @param password - User's plaintext password
+   * @param timezone - Initial profile timezone
+   * @returns SignUpResponseDto (session is null while email confirmation is pending)
+   * @throws EmailAlreadyRegisteredError if the email address already has an account
+   * @throws Error if Supabase returns another error or the bootstrap fails
+   */
+  async signUp(email: string, password: string, timezone: string): Promise<SignUpResponseDto> {
+    const { data, error } = await createAuthClient().auth.signUp({ email, password });
+
+    if (error) {
+      if (error.code === 'user_already_exists' || error.code === 'email_exists') {
+        throw new EmailAlreadyRegisteredError();
+      }
+      throw error;
+    }
+
+    if (!data.user) {
+      throw new Error('Invalid sign-up response from Supabase');
+    }
+
+    // With email confirmation enabled, Supabase answers a repeated sign-up with an
+    // obfuscated user that has no identities instead of an error
+    if (data.user.identities?.length === 0) {
+      throw new EmailAlreadyRegisteredError();
+    }
+
+    const userId = data.user.id;
+
+    try {
+      await new ProfileService(this.supabase).ensureProfile(userId, timezone);
+      await new PreferencesService(this.supabase).ensureDefaultPreferences(userId);
+    } catch (bootstrapError) {
+      const { error: deleteError } = await this.supabase.auth.admin.deleteUser(userId);
+      if (deleteError) {
+        console.error(`[ERROR] Failed to roll back sign-up of user ${userId}:`, deleteError);
+      }
+      throw bootstrapError;
+    }
+
+    console.log(`[INFO] User ${userId} signed up (timezone ${timezone})`);
+
+    return {
+      user: {
+        id: userId,
+        email: data.user.email ?? email,
+        email_confirmed_at: data.user.email_confirmed_at ?? null,
+      },
+      session: data.session
+        ? {
+            access_token: data.session.access_token,
+            refresh_token: data.session.refresh_token,
+            expires_in: data.session.expires_in ?? 3600,
+            token_type: 'bearer',
+          }
+        : null,
+    };
+  }
+
+  /**
+   * Sign out the user owning the access token by revoking their Supabase session(s)
+   * Sessions that already ended are ignored, so signing out twice succeeds
+   *
+   * @param jwt - Access token of the session signing out
+   * @param scope - 'local' (this session), 'global' (all sessions) or 'others' (all but this one)
+   * @throws Error if Supabase returns an error
+   */
+  async signOut(jwt: string, scope: 'local' | 'global' | 'others'): Promise<void> {
+    const { error } = await this.supabase.auth.admin.signOut(jwt, scope);
+
+    // 401/403/404: the session is already gone (signed out, expired or user deleted)
+    if (error && !(isAuthApiError(error) && [401, 403, 404].includes(error.status))) {
+      throw error;
+    }
+  }
+
+  /**
+   * Exchange a refresh token for a new session
+   * Refresh tokens are single-use: the returned session carries a new refresh token
+   *
+   * @param refreshToken - Refresh token of the current session
+   * @returns New SignInSessionDto
+   * @throws InvalidRefreshTokenError if the token is unknown, already used or expired
+   * @throws Error if Supabase returns another error
+   */
+  async refreshSession(refreshToken: string): Promise<SignInSessionDto> {
+    const { data, error } = await createAuthClient().auth.refreshSession({
+      refresh_token: refreshToken,
+    });
+
+    if (error) {
+      // Supabase answers 400/401 for tokens it cannot use
+      if (isAuthApiError(error) && (error.status === 400 || error.status === 401)) {
+        throw new InvalidRefreshTokenError();
+      }
+      throw error;
+    }
+
+    if (!data.session) {
+      throw new InvalidRefreshTokenError();
+    }
+
+    return {
+      access_token: data.session.access_token,
+      refresh_token: data.session.refresh_token,
+      expires_in: data.session.expires_in ?? 3600,
+      token_type: 'bearer',
+    };
+  }
+
+  /**
+   * Send a password reset email if an account exists for the address
+   *
+   * Resolves the same way whether or not the address has an account; Supabase errors are
+   * logged, not returned. The email links to APP_URL/reset-password
+   *
+   * @param email - Address the user entered
+   * @throws EmailThrottledError if the address requested too many emails
+   */
+  async requestPasswordReset(email: string): Promise<void> {
+    this.throttle.consume('password_reset', email);
+
+    const { appUrl } = publicUrlsFromEnv(this.env);
+    const { error } = await createAuthClient().auth.resetPasswordForEmail(email, {
+      redirectTo: `${appUrl}/reset-password`,
+    });
+
+    if (error) {
+      console.warn(`[WARN] Password reset email request failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Set a new password with the token_hash of a password reset email
+   * All sessions of the user are revoked afterwards
+   *
+   * Supabase only exchanges the one-time token for a recovery session, so the token is spent
+   * before the password policy is checked; callers validate the password first (length) and
+   * a password Supabase still rejects requires a new reset link
+   *
+   * @param tokenHash - token_hash from the recovery link
+   * @param password - New password, already checked against NewPasswordSchema
+   * @throws InvalidResetTokenError if the token is invalid, already used or expired
+   * @throws ResetPasswordRejectedError if Supabase rejects the password (e.g. weak_password,
+   *   same_password) after the token was spent
+   * @throws Error if Supabase returns another error
+   */
+  async resetPassword(tokenHash: string, password: string): Promise<void> {
+    const { data, error } = await createAuthClient().auth.verifyOtp({
+      token_hash: tokenHash,
+      type: 'recovery',
+    });
+
+    if (error || !data.user) {
+      if (!error || (isAuthApiError(error) && [400, 401, 403, 404].includes(error.status))) {
+        throw new InvalidResetTokenError();
+      }
+      throw error;
+    }
+
+    const { error: updateError } = await this.supabase.auth.admin.updateUserById(data.user.id, {
+      password,
+    });
+
+    if (updateError) {
+      if (isAuthError(updateError) && updateError.status >= 400 && updateError.status < 500) {
+        console.warn(
+          `[WARN] Password reset for user ${data.user.id} rejected after the token was used: ${updateError.message}`
+        );
+        throw new ResetPasswordRejectedError(updateError.message);
+      }
+      throw updateError;
+    }
+
+    if (data.session) {
+      await this.signOut(data.session.access_token, 'global');
+    }
+
+    console.log(`[INFO] Password reset for user ${data.user.id}`);
+  }
+
+  /**
+   * Send the sign-up verification email again if the address has an unconfirmed account
+   *
+   * Resolves the same way whether or not the address has an account or is confirmed already;
+   * Supabase errors are logged, not returned. The email links back to APP_URL
+   *
+   * @param email - Address the user signed up with
+   * @throws EmailThrottledError if the address requested too many emails
+   */
+  async resendVerification(email: string): Promise<void> {
+    this.throttle.consume('verification', email);
+
+    const { appUrl } = publicUrlsFromEnv(this.env);
+    const { error } = await createAuthClient().auth.resend({
+      type: 'signup',
+      email,
+      options: { emailRedirectTo: appUrl },
+    });
+
+    if (error) {
+      console.warn(`[WARN] Verification email resend failed: ${error.message}`);
+    }
+  }
 }
@@ -0,0 +1,261 @@
+import { createHash, randomUUID } from 'node:crypto';
+import type { DashboardDto, UUID } from '../types.js';
+
+/**
+ * Key-value store behind the dashboard cache
+ *
+ * Modelled on Redis GET / SET EX / DEL so a Redis-compatible client can be adapted with a few
+ * lines; values are strings and expire after ttlSeconds
+ */
+export interface DashboardCacheStore {
+  readonly name: string;
+  /** @returns stored value, or null if the key is missing or expired */
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ttlSeconds: number): Promise<void>;
+  /** Deleting a missing key succeeds */
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Process-local store (default); expired entries are dropped on access and when the store grows
+ */
+export class MemoryDashboardCacheStore implements DashboardCacheStore {
+  readonly name = 'memory';
+  private entries = new Map<string, { value: string; expiresAt: number }>();
+
+  constructor(private readonly maxEntries = 10000) {}
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+    return entry.value;
+  }
+
+  async set(key: string, value: string, ttlSeconds: number): Promise<void> {
+    if (this.entries.size >= this.maxEntries) {
+      this.prune();
+    }
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  /**
+   * Drop expired entries, then the oldest ones while still over the limit
+   */
+  private prune(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+    for (const key of this.entries.keys()) {
+      if (this.entries.size < this.maxEntries) {
+        break;
+      }
+      this.entries.delete(key);
+    }
+  }
+}
+
+/**
+ * Dashboard payload with its entity tag
+ */
+export type CachedDashboard = {
+  etag: string;
+  dashboard: DashboardDto;
+};
+
+/**
+ * Counters of this process, for monitoring
+ */
+export type DashboardCacheStats = {
+  store: string;
+  ttl_seconds: number;
+  hits: number;
+  misses: number;
+  invalidations: number;
+  errors: number;
+  hit_ratio: number | null;
+};
+
+/**
+ * DashboardCache keeps the dashboard payload per user (PRD item 10)
+ *
+ * Entries are keyed by user and query variant (timezone, since) under a per-user generation
+ * token. Invalidation deletes the token, which orphans every cached variant of the user at once
+ * (they expire by TTL); a payload computed while an invalidation happens is written under the
+ * old token and never served. Store failures never fail a request: reads count as misses and
+ * writes are skipped
+ */
+export class DashboardCache {
+  private hits = 0;
+  private misses = 0;
+  private invalidations = 0;
+  private errors = 0;
+
+  /**
+   * @param store - Backing key-value store
+   * @param ttlSeconds - Lifetime of cached payloads
+   */
+  constructor(
+    private readonly store: DashboardCacheStore,
+    readonly ttlSeconds: number = 300
+  ) {}
+
+  /**
+   * Return the cached dashboard of a user for a query variant, computing and caching it on a miss
+   *
+   * @param userId - UUID of the user
+   * @param variant - Identifies the query parameters the payload depends on
+   * @param compute - Builds the dashboard on a miss
+   * @returns Payload with its ETag and whether it came from the cache
+   * @throws Errors thrown by compute
+   */
+  async getOrCompute(
+    userId: UUID,
+    variant: string,
+    compute: () => Promise<DashboardDto>
+  ): Promise<CachedDashboard & { hit: boolean }> {
+    const generation = await this.readGeneration(userId);
+
+    if (generation) {
+      try {
+        const value = await this.store.get(this.entryKey(userId, generation, variant));
+        if (value !== null) {
+          this.hits++;
+          return { ...(JSON.parse(value) as CachedDashboard), hit: true };
+        }
+      } catch (err) {
+        this.errors++;
+        console.warn(`[WARN] Dashboard cache read failed for user ${userId}:`, err);
+      }
+    }
+
+    this.misses++;
+    const dashboard = await compute();
+    const cached: CachedDashboard = { etag: dashboardEtag(dashboard), dashboard };
+
+    if (generation) {
+      try {
+        await this.store.set(
+          this.entryKey(userId, generation, variant),
+          JSON.stringify(cached),
+          this.ttlSeconds
+        );
+      } catch (err) {
+        this.errors++;
+        console.warn(`[WARN] Dashboard cache write failed for user ${userId}:`, err);
+      }
+    }
+
+    return { ...cached, hit: false };
+  }
+
+  /**
+   * Drop every cached dashboard of a user (called after the user's notes change)
+   */
+  async invalidate(userId: UUID): Promise<void> {
+    this.invalidations++;
+
+    try {
+      await this.store.delete(this.generationKey(userId));
+    } catch (err) {
+      this.errors++;
+      console.warn(`[WARN] Dashboard cache invalidation failed for user ${userId}:`, err);
+    }
+  }
+
+  stats(): DashboardCacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      store: this.store.name,
+      ttl_seconds: this.ttlSeconds,
+      hits: this.hits,
+      misses: this.misses,
+      invalidations: this.invalidations,
+      errors: this.errors,
+      hit_ratio: lookups > 0 ? this.hits / lookups : null,
+    };
+  }
+
+  /**
+   * Current generation token of a user, started when missing; null if the store fails
+   */
+  private async readGeneration(userId: UUID): Promise<string | null> {
+    const key = this.generationKey(userId);
+
+    try {
+      const generation = await this.store.get(key);
+      if (generation) {
+        return generation;
+      }
+      const started = randomUUID();
+      await this.store.set(key, started, this.ttlSeconds);
+      return started;
+    } catch (err) {
+      this.errors++;
+      console.warn(`[WARN] Dashboard cache read failed for user ${userId}:`, err);
+      return null;
+    }
+  }
+
+  private generationKey(userId: UUID): string {
+    return `dashboard:${userId}:generation`;
+  }
+
+  private entryKey(userId: UUID, generation: string, variant: string): string {
+    return `dashboard:${userId}:${generation}:${variant}`;
+  }
+}
+
+/**
+ * Strong entity tag of a dashboard payload
+ */
+export function dashboardEtag(dashboard: DashboardDto): string {
+  return `"${createHash('sha256').update(JSON.stringify(dashboard)).digest('base64url').slice(0, 27)}"`;
+}
+
+/**
+ * Create the dashboard cache from configuration
+ *
+ * Environment:
+ * - DASHBOARD_CACHE_TTL_SECONDS: lifetime of cached dashboards (default: 300)
+ *
+ * @param store - Backing store (default: process memory); pass an adapter to share the cache
+ *   between instances through a Redis-compatible server
+ */
+export function createDashboardCache(
+  store: DashboardCacheStore = new MemoryDashboardCacheStore(),
+  env: NodeJS.ProcessEnv = process.env
+): DashboardCache {
+  return new DashboardCache(store, Number(env.DASHBOARD_CACHE_TTL_SECONDS) || 300);
+}
+
+let defaultCache: DashboardCache | null = null;
+
+/**
+ * Lazily created, process-wide cache used when services are not given one explicitly
+ */
+export function getDashboardCache(): DashboardCache {
+  if (!defaultCache) {
+    defaultCache = createDashboardCache();
+  }
+  return defaultCache;
+}
+
+/**
+ * Replace the process-wide cache, e.g. with one backed by a Redis-compatible store at startup
+ */
+export function setDashboardCache(cache: DashboardCache): void {
+  defaultCache = cache;
+}
@@ -0,0 +1,298 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../db/database.types.js';
+import type { UUID, DashboardDto, DashboardQuery, RecentReportDto } from '../types.js';
+import { ProfileService, ProfileNotFoundError } from './profile.service.js';
+import { PreferencesService, PreferencesNotFoundError } from './preferences.service.js';
+import {
+  getDashboardCache,
+  type DashboardCache,
+  type CachedDashboard,
+} from './dashboard-cache.service.js';
+
+/**
+ * Default counted period when no `since` is given
+ */
+const DEFAULT_PERIOD_DAYS = 28;
+
+/**
+ * Recent reports shown on the dashboard
+ */
+const RECENT_REPORTS_LIMIT = 5;
+
+/**
+ * Page size used when scanning notes for the streak (matches PostgREST max_rows)
+ */
+const STREAK_PAGE_SIZE = 1000;
+
+/**
+ * DashboardService aggregates the dashboard overview (PRD US-006)
+ *
+ * - notes_count: notes per active category created since the period start
+ * - streak_days: consecutive local days (in the requested timezone) with at least one note,
+ *   ending today, or yesterday while today has no note yet; not limited to the period
+ * - recent_reports: latest reports created since the period start
+ *
+ * Uses user-scoped Supabase clients to enforce Row-Level Security (RLS)
+ */
+export class DashboardService {
+  /**
+   * Initialize service with a user-scoped Supabase client
+   * @param userClient - User-scoped Supabase client (enforces RLS via JWT)
+   * @param cache - Per-user dashboard cache
+   */
+  constructor(
+    private userClient: SupabaseClient<Database>,
+    private cache: DashboardCache = getDashboardCache()
+  ) {}
+
+  /**
+   * Dashboard of the authenticated user served from the cache when possible
+   *
+   * Payloads are cached per user and query for the cache TTL (5 minutes by default) and
+   * dropped when the user's notes, reports or preferences change
+   *
+   * @param userId - UUID of the authenticated user
+   * @param query - Optional timezone and period start
+   * @returns Dashboard with its ETag and whether it was served from the cache
+   * @throws Error for unexpected database or network errors
+   */
+  async getCachedDashboard(
+    userId: UUID,
+    query: DashboardQuery
+  ): Promise<CachedDashboard & { hit: boolean }> {
+    const variant = `tz=${query.timezone ?? ''}&since=${query.since ?? ''}`;
+    return this.cache.getOrCompute(userId, variant, () => this.getDashboard(userId, query));
+  }
+
+  /**
+   * Build the dashboard of the authenticated user
+   *
+   * @param userId - UUID of the authenticated user
+   * @param query - Optional timezone and period start
+   * @param now - Current time
+   * @returns DashboardDto
+   * @throws Error for unexpected database or network errors
+   */
+  async getDashboard(
+    userId: UUID,
+    query: DashboardQuery,
+    now: Date = new Date()
+  ): Promise<DashboardDto> {
+    const timezone = query.timezone ?? (await this.getProfileTimezone(userId));
+    const activeCategories = await this.getActiveCategories(userId);
+    const since = this.resolveSince(query.since, timezone, now);
+
+    const [notesCount, streakDays, recentReports] = await Promise.all([
+      this.countNotesByCategory(userId, activeCategories, since),
+      this.calculateStreak(userId, timezone, now),
+      this.fetchRecentReports(userId, since),
+    ]);
+
+    return {
+      summary: {
+        active_categories: activeCategories,
+        notes_count: notesCount,
+        streak_days: streakDays,
+      },
+      recent_reports: recentReports,
+    };
+  }
+
+  /**
+   * Profile timezone, UTC for users without a profile
+   */
+  private async getProfileTimezone(userId: UUID): Promise<string> {
+    try {
+      return (await new ProfileService(this.userClient).getProfile(userId)).timezone;
+    } catch (err) {
+      if (err instanceof ProfileNotFoundError) {
+        return 'UTC';
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Active categories from preferences, none for users without preferences
+   */
+  private async getActiveCategories(userId: UUID): Promise<UUID[]> {
+    try {
+      return (await new PreferencesService(this.userClient).getPreferences(userId))
+        .active_categories;
+    } catch (err) {
+      if (err instanceof PreferencesNotFoundError) {
+        return [];
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Period start as an ISO instant: a local date means midnight in the timezone
+   */
+  private resolveSince(since: string | undefined, timezone: string, now: Date): string {
+    if (!since) {
+      return new Date(now.getTime() - DEFAULT_PERIOD_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    }
+
+    if (/^\d{4}-\d{2}-\d{2}$/.test(since)) {
+      return this.localMidnightToUtc(since, timezone).toISOString();
+    }
+
+    return new Date(since).toISOString();
+  }
+
+  /**
+   * Count non-deleted notes per active category since the period start
+   * Every active category is present, with 0 when it has no notes
+   */
+  private async countNotesByCategory(
+    userId: UUID,
+    categoryIds: UUID[],
+    since: string
+  ): Promise<Record<UUID, number>> {
+    const counts = await Promise.all(
+      categoryIds.map(async (categoryId) => {
+        const { count, error } = await this.userClient
+          .from('notes')
+          .select('id', { count: 'exact', head: true })
+          .eq('user_id', userId)
+          .eq('category_id', categoryId)
+          .is('deleted_at', null)
+          .gte('created_at', since);
+
+        if (error) {
+          console.error('DashboardService.countNotesByCategory error:', error);
+          throw new Error(`Failed to count notes: ${error.message}`);
+        }
+
+        return [categoryId, count ?? 0] as const;
+      })
+    );
+
+    return Object.fromEntries(counts);
+  }
+
+  /**
+   * Count consecutive local days with notes, scanning notes newest first until a gap
+   */
+  private async calculateStreak(userId: UUID, timezone: string, now: Date): Promise<number> {
+    const today = this.getLocalDate(now, timezone);
+    let expected: string | null = null;
+    let streak = 0;
+
+    for (let offset = 0; ; offset += STREAK_PAGE_SIZE) {
+      const { data, error } = await this.userClient
+        .from('notes')
+        .select('created_at')
+        .eq('user_id', userId)
+        .is('deleted_at', null)
+        .lte('created_at', now.toISOString())
+        .order('created_at', { ascending: false })
+        .range(offset, offset + STREAK_PAGE_SIZE - 1);
+
+      if (error) {
+        console.error('DashboardService.calculateStreak error:', error);
+        throw new Error(`Failed to fetch notes: ${error.message}`);
+      }
+
+      for (const note of data || []) {
+        const day = this.getLocalDate(new Date(note.created_at), timezone);
+
+        if (expected === null) {
+          // The streak is still alive while the latest note is from today or yesterday
+          if (day !== today && day !== this.addDays(today, -1)) {
+            return 0;
+          }
+          expected = day;
+        }
+
+        if (day === expected) {
+          streak++;
+          expected = this.addDays(expected, -1);
+        } else if (day !== this.addDays(expected, 1)) {
+          // Neither the day being counted nor the one already counted: gap found
+          return streak;
+        }
+      }
+
+      if (!data || data.length < STREAK_PAGE_SIZE) {
+        return streak;
+      }
+    }
+  }
+
+  /**
+   * Latest non-deleted reports created since the period start
+   */
+  private async fetchRecentReports(userId: UUID, since: string): Promise<RecentReportDto[]> {
+    const { data, error } = await this.userClient
+      .from('reports')
+      .select('id, generated_by, created_at')
+      .eq('user_id', userId)
+      .is('deleted_at', null)
+      .gte('created_at', since)
+      .order('created_at', { ascending: false })
+      .limit(RECENT_REPORTS_LIMIT);
+
+    if (error) {
+      console.error('DashboardService.fetchRecentReports error:', error);
+      throw new Error(`Failed to fetch reports: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Local calendar date (YYYY-MM-DD) of an instant in a timezone
+   */
+  private getLocalDate(instant: Date, timezone: string): string {
+    return new Intl.DateTimeFormat('en-CA', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+    }).format(instant);
+  }
+
+  /**
+   * Instant of local midnight of a calendar date in a timezone
+   */
+  private localMidnightToUtc(date: string, timezone: string): Date {
+    const utcMidnight = new Date(`${date}T00:00:00Z`);
+    // Offset of the timezone at (about) that time, e.g. +02:00 -> 2h
+    const parts = Object.fromEntries(
+      new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit',
+        hourCycle: 'h23',
+      })
+        .formatToParts(utcMidnight)
+        .map((p) => [p.type, p.value])
+    );
+    const asLocal = Date.UTC(
+      Number(parts.year),
+      Number(parts.month) - 1,
+      Number(parts.day),
+      Number(parts.hour),
+      Number(parts.minute),
+      Number(parts.second)
+    );
+
+    return new Date(utcMidnight.getTime() - (asLocal - utcMidnight.getTime()));
+  }
+
+  /**
+   * Add days to a calendar date (YYYY-MM-DD), independent of any timezone
+   */
+  private addDays(date: string, days: number): string {
+    const d = new Date(`${date}T00:00:00Z`);
+    d.setUTCDate(d.getUTCDate() + days);
+    return d.toISOString().slice(0, 10);
+  }
+}
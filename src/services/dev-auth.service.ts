@@ -0,0 +1,198 @@
+import { createHash, randomBytes, timingSafeEqual } from 'node:crypto';
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../db/database.types.js';
+import type { UUID } from '../types.js';
+import { ProfileService } from './profile.service.js';
+import { PreferencesService } from './preferences.service.js';
+
+/**
+ * Named user that development requests can act as
+ */
+export type DevFixtureUser = {
+  name: string;
+  userId: UUID;
+  email: string;
+  emailVerified: boolean;
+  timezone: string;
+};
+
+export type DevAuthConfig = {
+  /** Value expected in the X-Dev-Auth-Secret header */
+  secret: string;
+  /** Fixture used when a request names none */
+  defaultUser: DevFixtureUser;
+};
+
+/**
+ * Fixture users available in development auth mode, selected with the X-Dev-User header
+ * (the first one is the default)
+ */
+export const DEV_FIXTURE_USERS: readonly DevFixtureUser[] = [
+  {
+    name: 'alice',
+    userId: '00000000-0000-0000-0000-000000000001',
+    email: 'alice@example.com',
+    emailVerified: true,
+    timezone: 'Europe/Warsaw',
+  },
+  {
+    name: 'bob',
+    userId: '00000000-0000-0000-0000-000000000002',
+    email: 'bob@example.com',
+    emailVerified: true,
+    timezone: 'America/New_York',
+  },
+  {
+    name: 'unverified',
+    userId: '00000000-0000-0000-0000-000000000003',
+    email: 'unverified@example.com',
+    emailVerified: false,
+    timezone: 'UTC',
+  },
+];
+
+const LOCAL_HOSTNAME_PATTERN =
+  /^(localhost|127\.0\.0\.1|\[::1\]|host\.docker\.internal|kong)$|\.(local|localhost|test)$/i;
+
+/**
+ * Build the development auth configuration and refuse unsafe combinations
+ *
+ * Development auth lets requests without a JWT act as a fixture user. It is off unless
+ * DEV_AUTH_ENABLED is 'true', requires a shared secret sent in X-Dev-Auth-Secret, and is
+ * refused (throws, so the server does not start) in production or against a Supabase project
+ * that is not running locally
+ *
+ * Environment:
+ * - DEV_AUTH_ENABLED: 'true' to enable (default: off)
+ * - DEV_AUTH_SECRET: shared secret, at least 16 characters (required when enabled)
+ * - DEV_AUTH_DEFAULT_USER: fixture name used without X-Dev-User (default: alice)
+ *
+ * @returns Configuration, or null when development auth is disabled
+ * @throws Error if enabled in an unsafe environment or misconfigured
+ */
+export function devAuthConfigFromEnv(env: NodeJS.ProcessEnv = process.env): DevAuthConfig | null {
+  if (env.DEV_AUTH_ENABLED !== 'true') {
+    return null;
+  }
+
+  if (env.NODE_ENV === 'production') {
+    throw new Error('DEV_AUTH_ENABLED must not be set when NODE_ENV is production');
+  }
+
+  let hostname: string;
+  try {
+    hostname = new URL(env.SUPABASE_URL || '').hostname;
+  } catch {
+    throw new Error('DEV_AUTH_ENABLED requires a valid SUPABASE_URL');
+  }
+
+  if (!LOCAL_HOSTNAME_PATTERN.test(hostname)) {
+    throw new Error(
+      `DEV_AUTH_ENABLED is only allowed with a local Supabase instance (SUPABASE_URL host is ${hostname})`
+    );
+  }
+
+  const secret = env.DEV_AUTH_SECRET || '';
+  if (secret.length < 16) {
+    throw new Error('DEV_AUTH_SECRET must be set to at least 16 characters when DEV_AUTH_ENABLED');
+  }
+
+  const defaultName = env.DEV_AUTH_DEFAULT_USER || DEV_FIXTURE_USERS[0].name;
+  const defaultUser = findDevFixtureUser(defaultName);
+  if (!defaultUser) {
+    throw new Error(`DEV_AUTH_DEFAULT_USER "${defaultName}" is not a fixture user`);
+  }
+
+  return { secret, defaultUser };
+}
+
+/**
+ * Look up a fixture user by name (case-insensitive)
+ */
+export function findDevFixtureUser(name: string): DevFixtureUser | undefined {
+  const wanted = name.trim().toLowerCase();
+  return DEV_FIXTURE_USERS.find((user) => user.name === wanted);
+}
+
+/**
+ * Compare a provided dev secret with the configured one in constant time
+ */
+export function isValidDevAuthSecret(config: DevAuthConfig, provided: string | undefined): boolean {
+  if (!provided) {
+    return false;
+  }
+  const expected = createHash('sha256').update(config.secret).digest();
+  const actual = createHash('sha256').update(provided).digest();
+  return timingSafeEqual(expected, actual);
+}
+
+/**
+ * Create the fixture users in Supabase Auth (with their fixed ids) together with their
+ * profile and default preferences; existing users and rows are left unchanged
+ *
+ * @param adminClient - Admin Supabase client of the local instance
+ * @returns Number of auth users created
+ * @throws Error if Supabase returns an error
+ */
+export async function seedDevFixtureUsers(adminClient: SupabaseClient<Database>): Promise<number> {
+  let created = 0;
+
+  for (const fixture of DEV_FIXTURE_USERS) {
+    const { data: existing, error: lookupError } = await adminClient.auth.admin.getUserById(
+      fixture.userId
+    );
+
+    if (lookupError && lookupError.status !== 404) {
+      throw new Error(`Failed to look up fixture user ${fixture.name}: ${lookupError.message}`);
+    }
+
+    if (!existing?.user) {
+      const { error: createError } = await adminClient.auth.admin.createUser({
+        id: fixture.userId,
+        email: fixture.email,
+        email_confirm: fixture.emailVerified,
+        // Fixtures sign in through dev auth only
+        password: randomBytes(24).toString('base64url'),
+      });
+
+      if (createError) {
+        throw new Error(`Failed to create fixture user ${fixture.name}: ${createError.message}`);
+      }
+      created++;
+    }
+
+    await new ProfileService(adminClient).ensureProfile(fixture.userId, fixture.timezone);
+    await new PreferencesService(adminClient).ensureDefaultPreferences(fixture.userId);
+  }
+
+  return created;
+}
+
+let loadedConfig: DevAuthConfig | null | undefined;
+
+/**
+ * Process-wide development auth configuration, validated and announced once
+ *
+ * @throws Error if development auth is enabled in an unsafe environment (see devAuthConfigFromEnv)
+ */
+export function getDevAuthConfig(): DevAuthConfig | null {
+  if (loadedConfig === undefined) {
+    loadedConfig = devAuthConfigFromEnv();
+
+    if (loadedConfig) {
+      console.warn(
+        [
+          '',
+          '[WARN] ==========================================================================',
+          '[WARN] DEVELOPMENT AUTH IS ENABLED: requests carrying X-Dev-Auth-Secret can act as',
+          `[WARN] fixture users (${DEV_FIXTURE_USERS.map((user) => user.name).join(', ')}) without a JWT.`,
+          `[WARN] Default fixture user: ${loadedConfig.defaultUser.name}. Never enable outside local development.`,
+          '[WARN] ==========================================================================',
+          '',
+        ].join('\n')
+      );
+    }
+  }
+
+  return loadedConfig;
+}
@@ -0,0 +1,76 @@
+import type { Json } from '../db/database.types.js';
+import type { UUID } from '../types.js';
+
+/**
+ * Domain events published by the service layer (PRD US-017)
+ */
+export type DomainEventName =
+  | 'note_created'
+  | 'note_updated'
+  | 'note_deleted'
+  | 'report_generated'
+  | 'report_deleted'
+  | 'delivery_queued'
+  | 'delivery_sent'
+  | 'delivery_opened'
+  | 'delivery_failed'
+  | 'feedback_submitted'
+  | 'limit_exceeded';
+
+/**
+ * Something that happened to a user's data; properties carry ids and metadata only,
+ * never note or report content
+ */
+export type DomainEvent = {
+  name: DomainEventName;
+  userId: UUID;
+  properties: { [key: string]: Json | undefined };
+  occurredAt: string;
+};
+
+type DomainEventListener = (event: DomainEvent) => void | Promise<void>;
+
+/**
+ * In-process publish/subscribe of domain events
+ *
+ * publish() returns immediately: listeners run on a later tick, and their errors (thrown or
+ * rejected) are logged, so a failing listener never fails the operation that published
+ */
+export class DomainEventBus {
+  private listeners = new Set<DomainEventListener>();
+
+  /**
+   * Publish an event to all subscribers
+   */
+  publish(name: DomainEventName, userId: UUID, properties: DomainEvent['properties'] = {}): void {
+    if (this.listeners.size === 0) {
+      return;
+    }
+
+    const event: DomainEvent = { name, userId, properties, occurredAt: new Date().toISOString() };
+
+    for (const listener of this.listeners) {
+      setImmediate(() => {
+        Promise.resolve()
+          .then(() => listener(event))
+          .catch((err) =>
+            console.warn(
+              `[WARN] Domain event listener failed for ${name}: ${err instanceof Error ? err.message : String(err)}`
+            )
+          );
+      });
+    }
+  }
+
+  /**
+   * @returns Function removing the listener again
+   */
+  subscribe(listener: DomainEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+export const domainEvents = new DomainEventBus();
@@ -0,0 +1,324 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../db/database.types.js';
+import type { UUID, DeliveryStatus, EmailDeliveryRunResultDto } from '../types.js';
+import { supabaseClient } from '../db/supabase.client.js';
+import {
+  getMailTransport,
+  MailTransportError,
+  type MailMessage,
+  type MailTransport,
+} from './mail-transport.service.js';
+import { ReportDeliveriesService } from './report-deliveries.service.js';
+import { EmailUnsubscribeService } from './email-unsubscribe.service.js';
+import { EmailTrackingService } from './email-tracking.service.js';
+import { renderReportEmail } from './report-email-renderer.service.js';
+
+/**
+ * Queued email delivery picked up by the worker
+ */
+type DueDelivery = {
+  id: UUID;
+  report_id: UUID;
+  user_id: UUID;
+  status: DeliveryStatus;
+  attempts: number;
+};
+
+export type EmailDeliveryWorkerOptions = {
+  batchSize: number;
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  from: string;
+};
+
+/**
+ * Custom error for deliveries that can never be sent (retrying will not help)
+ */
+class PermanentDeliveryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentDeliveryError';
+  }
+}
+
+/**
+ * Custom error for deliveries the user no longer wants (unsubscribed before sending)
+ */
+class DeliveryCancelledError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DeliveryCancelledError';
+  }
+}
+
+/**
+ * Build worker options from configuration
+ *
+ * Environment:
+ * - MAIL_FROM: sender address (default: 'LifeSync <no-reply@lifesync.local>')
+ * - EMAIL_DELIVERY_BATCH_SIZE: deliveries processed per run (default: 50)
+ * - EMAIL_DELIVERY_MAX_ATTEMPTS: attempts before a delivery is marked failed (default: 5)
+ * - EMAIL_DELIVERY_RETRY_BASE_MS: delay after the first failure, doubled per attempt (default: 60000)
+ */
+export function emailDeliveryOptionsFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): EmailDeliveryWorkerOptions {
+  return {
+    batchSize: Number(env.EMAIL_DELIVERY_BATCH_SIZE) || 50,
+    maxAttempts: Number(env.EMAIL_DELIVERY_MAX_ATTEMPTS) || 5,
+    baseDelayMs: Number(env.EMAIL_DELIVERY_RETRY_BASE_MS) || 60000,
+    maxDelayMs: 6 * 60 * 60 * 1000,
+    from: env.MAIL_FROM || 'LifeSync <no-reply@lifesync.local>',
+  };
+}
+
+/**
+ * EmailDeliveryWorker sends queued email deliveries
+ *
+ * A delivery is due while status is 'queued' or 'retrying' and next_attempt_at is empty or
+ * in the past. Each delivery is claimed by pushing next_attempt_at forward with a
+ * conditional update, so concurrent workers never send the same message twice in a run.
+ * Status changes go through ReportDeliveriesService.transitionDeliveryStatus:
+ * - sent: the transport accepted the message
+ * - retrying: temporary failure, retried with exponential backoff (baseDelayMs * 2^(attempts - 1))
+ * - bounced: the mail server rejected the recipient (SMTP 550/551/553 to RCPT TO)
+ * - failed: attempts exhausted, or the delivery can never be sent (report deleted, no address)
+ * - cancelled: the user unsubscribed from email
+ * Every message carries unsubscribe links (body footer and List-Unsubscribe headers) and
+ * open tracking (pixel and report link, see EmailTrackingService)
+ * The last error is kept on the row
+ *
+ * Uses the service role client: the worker operates across all users
+ */
+export class EmailDeliveryWorker {
+  /**
+   * @param adminClient - Admin Supabase client (bypasses RLS; reads auth users for addresses)
+   * @param transport - Mail transport used to send messages
+   * @param options - Batch size, retry policy and sender address
+   */
+  constructor(
+    private adminClient: SupabaseClient<Database> = supabaseClient,
+    private transport: MailTransport = getMailTransport(),
+    private options: EmailDeliveryWorkerOptions = emailDeliveryOptionsFromEnv()
+  ) {}
+
+  /**
+   * Send one batch of due email deliveries
+   *
+   * @param now - Instant used to decide which deliveries are due (default: current time)
+   * @returns EmailDeliveryRunResultDto with counts per resulting status
+   * @throws Error if due deliveries cannot be loaded
+   */
+  async run(now: Date = new Date()): Promise<EmailDeliveryRunResultDto> {
+    const result: EmailDeliveryRunResultDto = {
+      started_at: new Date().toISOString(),
+      finished_at: '',
+      processed: 0,
+      sent: 0,
+      retrying: 0,
+      failed: 0,
+      bounced: 0,
+      cancelled: 0,
+    };
+
+    for (const delivery of await this.fetchDueDeliveries(now)) {
+      if (!(await this.claim(delivery, now))) {
+        continue; // Claimed by a concurrent worker
+      }
+      result.processed++;
+
+      try {
+        await this.send(delivery);
+        await this.recordSuccess(delivery);
+        result.sent++;
+      } catch (err) {
+        result[await this.recordFailure(delivery, err)]++;
+      }
+    }
+
+    result.finished_at = new Date().toISOString();
+
+    if (result.processed > 0) {
+      console.log(
+        `[INFO] Email deliveries: ${result.sent} sent, ${result.retrying} retrying, ${result.failed} failed, ${result.bounced} bounced, ${result.cancelled} cancelled`
+      );
+    }
+
+    return result;
+  }
+
+  private async fetchDueDeliveries(now: Date): Promise<DueDelivery[]> {
+    const { data, error } = await this.adminClient
+      .from('report_deliveries')
+      .select('id, report_id, user_id, status, attempts')
+      .eq('channel', 'email')
+      .in('status', ['queued', 'retrying'])
+      .or(`next_attempt_at.is.null,next_attempt_at.lte.${now.toISOString()}`)
+      .order('queued_at')
+      .limit(this.options.batchSize);
+
+    if (error) {
+      console.error('EmailDeliveryWorker.fetchDueDeliveries error:', error);
+      throw new Error(`Failed to fetch queued email deliveries: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Lease the delivery for a few minutes; fails if another worker changed it first
+   */
+  private async claim(delivery: DueDelivery, now: Date): Promise<boolean> {
+    const lease = new Date(now.getTime() + 5 * 60 * 1000).toISOString();
+
+    const { data, error } = await this.adminClient
+      .from('report_deliveries')
+      .update({ next_attempt_at: lease, last_attempt_at: now.toISOString() })
+      .eq('id', delivery.id)
+      .eq('status', delivery.status)
+      .eq('attempts', delivery.attempts)
+      .select('id')
+      .maybeSingle();
+
+    if (error) {
+      console.error('EmailDeliveryWorker.claim error:', error);
+      return false;
+    }
+
+    return data !== null;
+  }
+
+  /**
+   * Render and send the report email
+   */
+  private async send(delivery: DueDelivery): Promise<void> {
+    const { data: report, error: reportError } = await this.adminClient
+      .from('reports')
+      .select('id, html, text_version, generated_by, created_at')
+      .eq('id', delivery.report_id)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (reportError) {
+      throw new Error(`Failed to fetch report: ${reportError.message}`);
+    }
+    if (!report) {
+      throw new PermanentDeliveryError('Report no longer exists');
+    }
+
+    const { data: preferences, error: preferencesError } = await this.adminClient
+      .from('preferences')
+      .select('email_unsubscribed_at')
+      .eq('user_id', delivery.user_id)
+      .maybeSingle();
+
+    if (preferencesError) {
+      throw new Error(`Failed to fetch preferences: ${preferencesError.message}`);
+    }
+    if (preferences?.email_unsubscribed_at) {
+      throw new DeliveryCancelledError('User unsubscribed from email delivery');
+    }
+
+    const { data: userData, error: userError } = await this.adminClient.auth.admin.getUserById(
+      delivery.user_id
+    );
+
+    if (userError) {
+      throw new Error(`Failed to fetch user: ${userError.message}`);
+    }
+    if (!userData.user?.email) {
+      throw new PermanentDeliveryError('User has no email address');
+    }
+
+    const unsubscribe = new EmailUnsubscribeService(this.adminClient);
+    const tracking = new EmailTrackingService(this.adminClient).linksFor(delivery.id);
+    const email = renderReportEmail(report, {
+      reportUrl: tracking.reportUrl,
+      feedbackUrls: tracking.feedbackUrls,
+      unsubscribeUrl: unsubscribe.linksFor(delivery.user_id).pageUrl,
+      pixelUrl: tracking.pixelUrl,
+    });
+
+    const message: MailMessage = {
+      from: this.options.from,
+      to: userData.user.email,
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+      headers: {
+        'X-LifeSync-Delivery-Id': delivery.id,
+        ...unsubscribe.headersFor(delivery.user_id),
+      },
+    };
+
+    await this.transport.send(message);
+  }
+
+  private async recordSuccess(delivery: DueDelivery): Promise<void> {
+    try {
+      await this.deliveries().transitionDeliveryStatus(delivery.id, delivery.status, 'sent', {
+        sent_at: new Date().toISOString(),
+        attempts: delivery.attempts + 1,
+        next_attempt_at: null,
+        last_error: null,
+      });
+    } catch (err) {
+      // The message is out; without this update it would be sent again after the lease
+      console.error(
+        `[ERROR] Delivery ${delivery.id} sent but not marked sent: ${err instanceof Error ? err.message : String(err)}`
+      );
+    }
+  }
+
+  /**
+   * Record a failed attempt: schedule a retry, or mark the delivery failed, bounced or cancelled
+   * @returns Status the delivery moved to
+   */
+  private async recordFailure(
+    delivery: DueDelivery,
+    err: unknown
+  ): Promise<'retrying' | 'failed' | 'bounced' | 'cancelled'> {
+    const attempts = delivery.attempts + 1;
+    const message = err instanceof Error ? err.message : String(err);
+
+    let status: 'retrying' | 'failed' | 'bounced' | 'cancelled';
+    if (err instanceof DeliveryCancelledError) {
+      status = 'cancelled';
+    } else if (err instanceof MailTransportError && err.recipientRejected) {
+      status = 'bounced';
+    } else if (err instanceof PermanentDeliveryError || attempts >= this.options.maxAttempts) {
+      status = 'failed';
+    } else {
+      status = 'retrying';
+    }
+
+    const delay = Math.min(this.options.baseDelayMs * 2 ** (attempts - 1), this.options.maxDelayMs);
+
+    try {
+      await this.deliveries().transitionDeliveryStatus(delivery.id, delivery.status, status, {
+        attempts,
+        last_error: message.slice(0, 1000),
+        next_attempt_at: status === 'retrying' ? new Date(Date.now() + delay).toISOString() : null,
+      });
+    } catch (updateErr) {
+      console.error(
+        `[ERROR] Failed to record delivery ${delivery.id} failure: ${updateErr instanceof Error ? updateErr.message : String(updateErr)}`
+      );
+    }
+
+    if (status === 'retrying') {
+      console.warn(`[WARN] Email delivery ${delivery.id} attempt ${attempts} failed: ${message}`);
+    } else {
+      console.warn(
+        `[WARN] Email delivery ${delivery.id} ${status} after ${attempts} attempts: ${message}`
+      );
+    }
+
+    return status;
+  }
+
+  private deliveries(): ReportDeliveriesService {
+    return new ReportDeliveriesService(this.adminClient);
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * Account emails subject to throttling
+ */
+export type ThrottledEmailPurpose = 'password_reset' | 'verification';
+
+export type EmailThrottleOptions = {
+  /** Minimum time between two emails of the same purpose to the same address */
+  minIntervalMs: number;
+  /** Maximum emails of the same purpose to the same address per window */
+  maxPerWindow: number;
+  windowMs: number;
+};
+
+/**
+ * Custom error for account email requests over the per-address limit
+ */
+export class EmailThrottledError extends Error {
+  constructor(public readonly retryAfterSeconds: number) {
+    super(`Too many email requests, retry in ${retryAfterSeconds}s`);
+    this.name = 'EmailThrottledError';
+  }
+}
+
+/**
+ * Build throttle options from configuration
+ *
+ * Environment:
+ * - AUTH_EMAIL_MIN_INTERVAL_SECONDS: minimum time between emails (default: 60)
+ * - AUTH_EMAIL_MAX_PER_HOUR: emails per address and purpose per hour (default: 5)
+ */
+export function emailThrottleOptionsFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): EmailThrottleOptions {
+  return {
+    minIntervalMs: (Number(env.AUTH_EMAIL_MIN_INTERVAL_SECONDS) || 60) * 1000,
+    maxPerWindow: Number(env.AUTH_EMAIL_MAX_PER_HOUR) || 5,
+    windowMs: 60 * 60 * 1000,
+  };
+}
+
+/**
+ * EmailThrottle limits password reset and verification emails per email address
+ *
+ * Limits are counted per normalized address whether or not an account exists, so a
+ * throttled response reveals nothing about the address. State is in memory: limits are
+ * per API instance and reset on restart (Supabase Auth applies its own global limits)
+ */
+export class EmailThrottle {
+  private sent = new Map<string, number[]>();
+
+  constructor(private options: EmailThrottleOptions = emailThrottleOptionsFromEnv()) {}
+
+  /**
+   * Record an email request, unless it is over the limits
+   *
+   * @param purpose - Kind of account email
+   * @param email - Recipient address (normalized here)
+   * @param now - Current time
+   * @throws EmailThrottledError if the address is over a limit
+   */
+  consume(purpose: ThrottledEmailPurpose, email: string, now: Date = new Date()): void {
+    const key = `${purpose}:${email.trim().toLowerCase()}`;
+    const nowMs = now.getTime();
+    const recent = (this.sent.get(key) ?? []).filter(
+      (sentAt) => nowMs - sentAt < this.options.windowMs
+    );
+
+    const last = recent[recent.length - 1];
+    const waitMs = Math.max(
+      last !== undefined ? last + this.options.minIntervalMs - nowMs : 0,
+      recent.length >= this.options.maxPerWindow
+        ? recent[recent.length - this.options.maxPerWindow] + this.options.windowMs - nowMs
+        : 0
+    );
+
+    if (waitMs > 0) {
+      this.sent.set(key, recent);
+      throw new EmailThrottledError(Math.ceil(waitMs / 1000));
+    }
+
+    recent.push(nowMs);
+    this.sent.set(key, recent);
+    this.prune(nowMs);
+  }
+
+  /**
+   * Drop addresses without requests in the current window (keeps the map bounded)
+   */
+  private prune(nowMs: number): void {
+    if (this.sent.size < 1000) {
+      return;
+    }
+    for (const [key, timestamps] of this.sent) {
+      if (nowMs - timestamps[timestamps.length - 1] >= this.options.windowMs) {
+        this.sent.delete(key);
+      }
+    }
+  }
+}
+
+let defaultThrottle: EmailThrottle | null = null;
+
+/**
+ * Lazily created, process-wide throttle shared by all requests
+ */
+export function getEmailThrottle(): EmailThrottle {
+  if (!defaultThrottle) {
+    defaultThrottle = new EmailThrottle();
+  }
+  return defaultThrottle;
+}
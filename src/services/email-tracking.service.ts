@@ -0,0 +1,166 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../db/database.types.js';
+import type { UUID } from '../types.js';
+import { supabaseClient } from '../db/supabase.client.js';
+import { publicUrlsFromEnv } from '../config/public-urls.js';
+import {
+  ReportDeliveriesService,
+  DeliveryStatusConflictError,
+} from './report-deliveries.service.js';
+import { getSignedTokenService, type SignedTokenService } from './signed-token.service.js';
+import type { FeedbackRating } from './report-email-renderer.service.js';
+
+/**
+ * Transparent 1x1 GIF served by the open tracking pixel
+ */
+export const TRACKING_PIXEL_GIF = Buffer.from(
+  'R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7',
+  'base64'
+);
+
+/**
+ * User agents of link scanners and previewers that fetch email content without a reader
+ * (mailbox providers' image proxies such as GoogleImageProxy are real opens and not listed)
+ */
+const PREFETCH_BOT_PATTERN =
+  /bot\b|crawler|spider|preview|facebookexternalhit|barracuda|mimecast|proofpoint|symantec|forcepoint|python-requests|curl\/|wget|go-http-client|headlesschrome/i;
+
+/**
+ * Tracking links embedded in a report email
+ */
+export type EmailTrackingLinks = {
+  /** Open tracking pixel (image URL) */
+  pixelUrl: string;
+  /** Signed redirect to the report in the app, counted as an open */
+  reportUrl: string;
+  /** Same redirect, opening the feedback rating in the app with a rating preselected */
+  feedbackUrls: Record<FeedbackRating, string>;
+};
+
+/**
+ * Where an open was recorded from
+ */
+export type EmailOpenSource = 'pixel' | 'link';
+
+/**
+ * Whether a request comes from a known prefetcher rather than the recipient
+ * Requests without a user agent are treated as bots
+ */
+export function isPrefetchBot(userAgent: string | undefined): boolean {
+  return !userAgent || PREFETCH_BOT_PATTERN.test(userAgent);
+}
+
+/**
+ * URL of a report in the app (target of the tracking redirect); the report list if unknown
+ * With a rating, the app opens the feedback modal with that rating preselected
+ */
+export function reportAppUrl(
+  reportId: UUID | null,
+  rating?: FeedbackRating,
+  env: NodeJS.ProcessEnv = process.env
+): string {
+  const { appUrl } = publicUrlsFromEnv(env);
+  if (!reportId) {
+    return `${appUrl}/reports`;
+  }
+  return rating === undefined
+    ? `${appUrl}/reports/${reportId}`
+    : `${appUrl}/reports/${reportId}?rating=${rating}`;
+}
+
+/**
+ * EmailTrackingService records opens of report emails without a session
+ *
+ * Emails embed a tracking pixel and a redirect link, both carrying a signed 'email_open'
+ * token for the delivery. The first open moves the email delivery from 'sent' to 'opened'
+ * and sets opened_at (source of the "reports opened" success metric); later opens, and
+ * requests from prefetch bots, change nothing
+ *
+ * Uses the service role client: requests are identified by the token, not by a JWT
+ */
+export class EmailTrackingService {
+  /**
+   * @param adminClient - Admin Supabase client (bypasses RLS)
+   * @param tokens - Service signing and verifying tracking tokens
+   * @param env - Environment providing the public URLs for links (see publicUrlsFromEnv)
+   */
+  constructor(
+    private adminClient: SupabaseClient<Database> = supabaseClient,
+    private tokens: SignedTokenService = getSignedTokenService(),
+    private env: NodeJS.ProcessEnv = process.env
+  ) {}
+
+  /**
+   * Build the tracking links for an email delivery
+   */
+  linksFor(deliveryId: UUID): EmailTrackingLinks {
+    const token = encodeURIComponent(this.tokens.sign('email_open', deliveryId));
+    const { apiUrl } = publicUrlsFromEnv(this.env);
+
+    const reportUrl = `${apiUrl}/api/email-tracking/report?token=${token}`;
+
+    return {
+      pixelUrl: `${apiUrl}/api/email-tracking/open.gif?token=${token}`,
+      reportUrl,
+      feedbackUrls: {
+        1: `${reportUrl}&rating=1`,
+        0: `${reportUrl}&rating=0`,
+        [-1]: `${reportUrl}&rating=-1`,
+      },
+    };
+  }
+
+  /**
+   * Record an open of an email delivery
+   *
+   * @param token - Signed 'email_open' token from the pixel or link
+   * @param userAgent - User-Agent of the request (prefetch bots are ignored)
+   * @param source - Whether the pixel was loaded or the link followed
+   * @returns report_id of the delivery, or null if the delivery no longer exists
+   * @throws InvalidSignedTokenError if the token does not verify
+   */
+  async recordOpen(
+    token: string,
+    userAgent: string | undefined,
+    source: EmailOpenSource
+  ): Promise<UUID | null> {
+    const deliveryId = this.tokens.verify('email_open', token).subject;
+
+    const { data: delivery, error } = await this.adminClient
+      .from('report_deliveries')
+      .select('id, report_id, status')
+      .eq('id', deliveryId)
+      .eq('channel', 'email')
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch delivery: ${error.message}`);
+    }
+
+    if (!delivery) {
+      return null;
+    }
+
+    // Only the first open of a sent email counts; anything else is left untouched
+    if (delivery.status !== 'sent' || isPrefetchBot(userAgent)) {
+      return delivery.report_id;
+    }
+
+    try {
+      await new ReportDeliveriesService(this.adminClient).transitionDeliveryStatus(
+        delivery.id,
+        'sent',
+        'opened',
+        { opened_at: new Date().toISOString() }
+      );
+      console.log(`[INFO] Email delivery ${delivery.id} opened (${source})`);
+    } catch (err) {
+      // A concurrent request recorded the open first
+      if (!(err instanceof DeliveryStatusConflictError)) {
+        throw err;
+      }
+    }
+
+    return delivery.report_id;
+  }
+}
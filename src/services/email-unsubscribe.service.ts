@@ -0,0 +1,100 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../db/database.types.js';
+import type { UUID, EmailSubscriptionStatusDto, UnsubscribeResponseDto } from '../types.js';
+import { supabaseClient } from '../db/supabase.client.js';
+import { publicUrlsFromEnv } from '../config/public-urls.js';
+import { PreferencesService } from './preferences.service.js';
+import { ReportDeliveriesService } from './report-deliveries.service.js';
+import { getSignedTokenService, type SignedTokenService } from './signed-token.service.js';
+
+/**
+ * Unsubscribe links embedded in a report email
+ */
+export type UnsubscribeLinks = {
+  /** Page in the app where the user confirms (body link) */
+  pageUrl: string;
+  /** API endpoint accepting the RFC 8058 one-click POST (List-Unsubscribe header) */
+  oneClickUrl: string;
+};
+
+/**
+ * EmailUnsubscribeService implements unsubscribe links that work without a session
+ *
+ * Links carry a signed 'unsubscribe' token for the recipient. Unsubscribing sets
+ * preferences.email_unsubscribed_at and cancels email deliveries not sent yet; it is
+ * reversed by the user from their preferences (POST /api/preferences/email-resubscribe)
+ *
+ * Uses the service role client: requests are identified by the token, not by a JWT
+ */
+export class EmailUnsubscribeService {
+  /**
+   * @param adminClient - Admin Supabase client (bypasses RLS)
+   * @param tokens - Service signing and verifying unsubscribe tokens
+   * @param env - Environment providing the public URLs for links (see publicUrlsFromEnv)
+   */
+  constructor(
+    private adminClient: SupabaseClient<Database> = supabaseClient,
+    private tokens: SignedTokenService = getSignedTokenService(),
+    private env: NodeJS.ProcessEnv = process.env
+  ) {}
+
+  /**
+   * Build the unsubscribe links for a recipient
+   */
+  linksFor(userId: UUID): UnsubscribeLinks {
+    const token = encodeURIComponent(this.tokens.sign('unsubscribe', userId));
+    const { apiUrl, appUrl } = publicUrlsFromEnv(this.env);
+
+    return {
+      pageUrl: `${appUrl}/unsubscribe?token=${token}`,
+      oneClickUrl: `${apiUrl}/api/unsubscribe?token=${token}`,
+    };
+  }
+
+  /**
+   * Mail headers advertising one-click unsubscribe (RFC 2369 and RFC 8058)
+   */
+  headersFor(userId: UUID): Record<string, string> {
+    return {
+      'List-Unsubscribe': `<${this.linksFor(userId).oneClickUrl}>`,
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    };
+  }
+
+  /**
+   * Current subscription state of the token's user
+   *
+   * @throws InvalidSignedTokenError if the token does not verify
+   * @throws PreferencesNotFoundError if the user has no preferences
+   */
+  async getStatus(token: string): Promise<EmailSubscriptionStatusDto> {
+    const userId = this.tokens.verify('unsubscribe', token).subject;
+    const preferences = await new PreferencesService(this.adminClient).getPreferences(userId);
+
+    return { email_unsubscribed_at: preferences.email_unsubscribed_at };
+  }
+
+  /**
+   * Unsubscribe the token's user from email and cancel their pending email deliveries
+   * Idempotent: repeating the request keeps the original unsubscribe time
+   *
+   * @throws InvalidSignedTokenError if the token does not verify
+   * @throws PreferencesNotFoundError if the user has no preferences
+   */
+  async unsubscribe(token: string): Promise<UnsubscribeResponseDto> {
+    const userId = this.tokens.verify('unsubscribe', token).subject;
+
+    const unsubscribedAt = await new PreferencesService(this.adminClient).unsubscribeFromEmail(
+      userId
+    );
+    const cancelled = await new ReportDeliveriesService(
+      this.adminClient
+    ).cancelPendingEmailDeliveries(userId);
+
+    console.log(
+      `[INFO] User ${userId} unsubscribed from email (${cancelled} pending deliveries cancelled)`
+    );
+
+    return { email_unsubscribed_at: unsubscribedAt, cancelled_deliveries: cancelled };
+  }
+}
@@ -2,6 +2,7 @@ import { SupabaseClient } from '@supabase/supabase-js';
 import type { Database } from '../db/database.types.js';
 import type { UUID, ReportFeedbackDto } from '../types.js';
 import type { SubmitFeedbackCommand } from '../validation/feedback.js';
+import { domainEvents, type DomainEventBus } from './domain-events.service.js';
 
 /**
  * Custom error for when a report is not found
@@ -40,8 +41,12 @@ export class FeedbackService {
   /**
    * Initialize service with Supabase client
    * @param userClient - User-scoped Supabase client (for RLS enforcement via JWT)
+   * @param events - Bus receiving feedback domain events (recorded as analytics)
    */
-  constructor(private userClient: SupabaseClient<Database>) {}
+  constructor(
+    private userClient: SupabaseClient<Database>,
+    private events: DomainEventBus = domainEvents
+  ) {}
 
   /**
    * Submit or update feedback for a report (1:1 relationship)
@@ -80,13 +85,24 @@ export class FeedbackService {
     }
 
     // Step 4: Create or update feedback based on existence
+    let feedback: ReportFeedbackDto;
     if (existingFeedback && upsert) {
       console.log(`[INFO] Updating existing feedback ${existingFeedback.id}`);
-      return this.updateFeedback(existingFeedback.id, command);
+      feedback = await this.updateFeedback(existingFeedback.id, command);
     } else {
       console.log(`[INFO] Creating new feedback for report ${command.report_id}`);
-      return this.createFeedback(userId, command);
+      feedback = await this.createFeedback(userId, command);
     }
+
+    this.events.publish('feedback_submitted', userId, {
+      feedback_id: feedback.id,
+      report_id: command.report_id,
+      rating: command.rating,
+      has_comment: Boolean(command.comment),
+      updated: Boolean(existingFeedback),
+    });
+
+    return feedback;
   }
 
   /**
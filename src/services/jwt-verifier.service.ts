@@ -0,0 +1,270 @@
+import { SupabaseClient, type User } from '@supabase/supabase-js';
+import {
+  createRemoteJWKSet,
+  jwtVerify,
+  errors as joseErrors,
+  type JWTPayload,
+  type JWTVerifyGetKey,
+} from 'jose';
+import type { Database } from '../db/database.types.js';
+import type { UUID } from '../types.js';
+import { supabaseClient } from '../db/supabase.client.js';
+
+/**
+ * Identity carried by a verified access token
+ */
+export type VerifiedUser = {
+  userId: UUID;
+  email: string;
+  emailVerified: boolean;
+};
+
+export type JwtVerifierOptions = {
+  /** Legacy HS256 JWT secret; when unset, tokens are verified against the JWKS */
+  secret: string | null;
+  /** JWKS endpoint of Supabase Auth (asymmetric signing keys) */
+  jwksUrl: string;
+  issuer: string;
+  audience: string;
+  /** Accepted clock skew for exp/nbf/iat */
+  clockToleranceSeconds: number;
+  /** Confirm with Supabase Auth that the session was not revoked (sign-out, password reset) */
+  revocationCheck: boolean;
+  /**
+   * How long a session confirmed by the revocation check, or a confirmed email address, is
+   * trusted without asking again
+   */
+  revocationCacheSeconds: number;
+};
+
+/**
+ * Supabase access token claims used by the API
+ */
+type SupabaseClaims = JWTPayload & {
+  email?: string;
+  session_id?: string;
+  is_anonymous?: boolean;
+};
+
+/**
+ * Custom error for access tokens that are malformed, badly signed, expired, issued for
+ * another audience/issuer or belong to a revoked session
+ */
+export class InvalidJwtError extends Error {
+  constructor(public readonly reason: string) {
+    super(`Invalid access token: ${reason}`);
+    this.name = 'InvalidJwtError';
+  }
+}
+
+/**
+ * Build verifier options from configuration
+ *
+ * Environment:
+ * - SUPABASE_URL: project URL (issuer and JWKS location are derived from it)
+ * - SUPABASE_JWT_SECRET: legacy HS256 secret (optional; JWKS is used when unset)
+ * - SUPABASE_JWKS_URL: JWKS endpoint (default: SUPABASE_URL/auth/v1/.well-known/jwks.json)
+ * - JWT_AUDIENCE: expected aud claim (default: authenticated)
+ * - JWT_CLOCK_TOLERANCE_SECONDS: accepted clock skew (default: 30)
+ * - AUTH_REVOCATION_CHECK: 'true' to confirm sessions with Supabase Auth (default: off)
+ * - AUTH_REVOCATION_CACHE_SECONDS: how long a confirmed session is trusted (default: 60)
+ */
+export function jwtVerifierOptionsFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): JwtVerifierOptions {
+  const supabaseUrl = (env.SUPABASE_URL || '').replace(/\/$/, '');
+
+  if (!supabaseUrl) {
+    throw new Error('Missing SUPABASE_URL env variable');
+  }
+
+  return {
+    secret: env.SUPABASE_JWT_SECRET || null,
+    jwksUrl: env.SUPABASE_JWKS_URL || `${supabaseUrl}/auth/v1/.well-known/jwks.json`,
+    issuer: `${supabaseUrl}/auth/v1`,
+    audience: env.JWT_AUDIENCE || 'authenticated',
+    clockToleranceSeconds: Number(env.JWT_CLOCK_TOLERANCE_SECONDS) || 30,
+    revocationCheck: env.AUTH_REVOCATION_CHECK === 'true',
+    revocationCacheSeconds: Number(env.AUTH_REVOCATION_CACHE_SECONDS) || 60,
+  };
+}
+
+/**
+ * JwtVerifier verifies Supabase access tokens locally
+ *
+ * Signatures are checked with the HS256 secret or with the project's JWKS (fetched once,
+ * cached, and refetched when a token names an unknown key, which covers key rotation),
+ * together with exp, iss and aud. Without the revocation check a signed-out session stays
+ * usable until its token expires; with it, sessions are confirmed with Supabase Auth at most
+ * once per revocationCacheSeconds.
+ *
+ * Email verification is not read from the token (user_metadata is writable by the user):
+ * it comes from email_confirmed_at of the Supabase Auth user, and confirmed users are cached
+ * for revocationCacheSeconds like confirmed sessions
+ */
+export class JwtVerifier {
+  private key: Uint8Array | JWTVerifyGetKey;
+  private confirmedSessions = new Map<string, number>();
+  private confirmedEmails = new Map<string, number>();
+
+  /**
+   * @param options - Key source, expected claims and revocation check settings
+   * @param adminClient - Admin Supabase client used by the revocation and email checks
+   */
+  constructor(
+    private options: JwtVerifierOptions,
+    private adminClient: SupabaseClient<Database> = supabaseClient
+  ) {
+    this.key = options.secret
+      ? new TextEncoder().encode(options.secret)
+      : createRemoteJWKSet(new URL(options.jwksUrl), {
+          cacheMaxAge: 10 * 60 * 1000,
+          cooldownDuration: 30 * 1000,
+        });
+  }
+
+  /**
+   * Verify an access token
+   *
+   * @param token - Bearer token from the Authorization header
+   * @returns VerifiedUser
+   * @throws InvalidJwtError if the token is not valid
+   * @throws Error if the JWKS or Supabase Auth cannot be reached
+   */
+  async verify(token: string): Promise<VerifiedUser> {
+    let claims: SupabaseClaims;
+
+    try {
+      const verifyOptions = {
+        issuer: this.options.issuer,
+        audience: this.options.audience,
+        clockTolerance: this.options.clockToleranceSeconds,
+        requiredClaims: ['sub', 'exp'],
+      };
+      const { payload } =
+        this.key instanceof Uint8Array
+          ? await jwtVerify(token, this.key, { ...verifyOptions, algorithms: ['HS256'] })
+          : await jwtVerify(token, this.key, {
+              ...verifyOptions,
+              algorithms: ['RS256', 'ES256', 'EdDSA'],
+            });
+      claims = payload as SupabaseClaims;
+    } catch (err) {
+      if (err instanceof joseErrors.JOSEError && !(err instanceof joseErrors.JWKSTimeout)) {
+        throw new InvalidJwtError(err.code);
+      }
+      throw err;
+    }
+
+    const user = this.options.revocationCheck ? await this.checkNotRevoked(token, claims) : null;
+
+    return {
+      userId: claims.sub as UUID,
+      email: claims.email ?? '',
+      emailVerified: await this.isEmailVerified(token, claims, user),
+    };
+  }
+
+  /**
+   * Ask Supabase Auth whether the token's session is still active, caching positive answers
+   *
+   * @returns The Supabase Auth user, or null when the session was confirmed from the cache
+   */
+  private async checkNotRevoked(token: string, claims: SupabaseClaims): Promise<User | null> {
+    const cacheKey = claims.session_id ?? token;
+    const now = Date.now();
+    const confirmedUntil = this.confirmedSessions.get(cacheKey);
+
+    if (confirmedUntil !== undefined && confirmedUntil > now) {
+      return null;
+    }
+
+    this.confirmedSessions.delete(cacheKey);
+    const user = await this.fetchUser(token);
+
+    this.confirmedSessions.set(cacheKey, now + this.options.revocationCacheSeconds * 1000);
+    this.pruneExpired(this.confirmedSessions, now);
+    return user;
+  }
+
+  /**
+   * Whether the user confirmed their email address (email_confirmed_at), caching positive
+   * answers; anonymous users and users without a confirmation are unverified
+   *
+   * @param user - Supabase Auth user already fetched for this token, if any
+   */
+  private async isEmailVerified(
+    token: string,
+    claims: SupabaseClaims,
+    user: User | null
+  ): Promise<boolean> {
+    if (claims.is_anonymous) {
+      return false;
+    }
+
+    const userId = claims.sub as string;
+    const now = Date.now();
+    const confirmedUntil = this.confirmedEmails.get(userId);
+
+    if (confirmedUntil !== undefined && confirmedUntil > now) {
+      return true;
+    }
+
+    const current = user ?? (await this.fetchUser(token));
+    if (!current.email_confirmed_at) {
+      return false;
+    }
+
+    this.confirmedEmails.set(userId, now + this.options.revocationCacheSeconds * 1000);
+    this.pruneExpired(this.confirmedEmails, now);
+    return true;
+  }
+
+  /**
+   * Supabase Auth user of a token
+   *
+   * @throws InvalidJwtError if Supabase Auth no longer accepts the token (session revoked)
+   * @throws Error if Supabase Auth cannot be reached
+   */
+  private async fetchUser(token: string): Promise<User> {
+    const {
+      data: { user },
+      error,
+    } = await this.adminClient.auth.getUser(token);
+
+    if (error || !user) {
+      if (error && (error.status ?? 0) >= 500) {
+        throw error;
+      }
+      throw new InvalidJwtError('session revoked');
+    }
+
+    return user;
+  }
+
+  /**
+   * Drop expired cache entries (keeps the map bounded)
+   */
+  private pruneExpired(cache: Map<string, number>, now: number): void {
+    if (cache.size < 10000) {
+      return;
+    }
+    for (const [key, until] of cache) {
+      if (until <= now) {
+        cache.delete(key);
+      }
+    }
+  }
+}
+
+let defaultVerifier: JwtVerifier | null = null;
+
+/**
+ * Lazily created, process-wide verifier (shares the JWKS and revocation caches)
+ */
+export function getJwtVerifier(): JwtVerifier {
+  if (!defaultVerifier) {
+    defaultVerifier = new JwtVerifier(jwtVerifierOptionsFromEnv());
+  }
+  return defaultVerifier;
+}
@@ -0,0 +1,337 @@
+import type { UUID } from '../types.js';
+import type { RenderedPrompt } from './prompt-registry.service.js';
+import { LlmReportOutputSchema, type LlmReportOutput } from '../validation/llm.js';
+
+/**
+ * Note passed to the LLM as report input
+ */
+export type ReportNoteInput = {
+  id: UUID;
+  category_id: UUID;
+  title: string | null;
+  content: string;
+  created_at: string;
+};
+
+/**
+ * Category (from categories_snapshot) passed to the LLM as report input
+ */
+export type ReportCategoryInput = {
+  id: UUID;
+  name?: string;
+};
+
+/**
+ * Everything a provider needs to produce report content
+ * prompt is the rendered template; the structured fields are kept for providers
+ * that do not call a model (e.g. the fake provider)
+ */
+export type ReportGenerationInput = {
+  notes: ReportNoteInput[];
+  categories: ReportCategoryInput[];
+  timezone: string;
+  weekStart: string;
+  weekEnd: string;
+  prompt: RenderedPrompt;
+};
+
+/**
+ * Structured report content produced by a provider
+ * model is the model id that actually produced the content (as reported by the provider)
+ */
+export type ReportGenerationOutput = LlmReportOutput & {
+  model: string;
+};
+
+/**
+ * Receives raw model output as it is produced (streaming)
+ */
+export type LlmTokenListener = (token: string) => void;
+
+/**
+ * Common interface implemented by all LLM providers
+ * When onToken is given, providers stream the raw model output through it before resolving
+ */
+export interface LlmProvider {
+  readonly name: string;
+  generateReport(
+    input: ReportGenerationInput,
+    onToken?: LlmTokenListener
+  ): Promise<ReportGenerationOutput>;
+}
+
+/**
+ * Custom error for when the LLM provider fails or returns unusable content
+ */
+export class LlmProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: string,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = 'LlmProviderError';
+  }
+}
+
+/**
+ * OpenRouter-compatible chat completions client
+ * Works with any endpoint implementing the OpenAI /chat/completions contract
+ */
+export class OpenRouterLlmProvider implements LlmProvider {
+  readonly name = 'openrouter';
+
+  constructor(
+    private readonly config: {
+      apiKey: string;
+      model: string;
+      baseUrl: string;
+      timeoutMs: number;
+      appUrl?: string;
+    }
+  ) {}
+
+  async generateReport(
+    input: ReportGenerationInput,
+    onToken?: LlmTokenListener
+  ): Promise<ReportGenerationOutput> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.config.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${this.config.apiKey}`,
+          'Content-Type': 'application/json',
+          ...(this.config.appUrl ? { 'HTTP-Referer': this.config.appUrl } : {}),
+          'X-Title': 'LifeSync',
+        },
+        body: JSON.stringify({
+          model: this.config.model,
+          messages: [
+            { role: 'system', content: input.prompt.system },
+            { role: 'user', content: input.prompt.user },
+          ],
+          response_format: { type: 'json_object' },
+          temperature: 0.4,
+          stream: Boolean(onToken),
+        }),
+        signal: AbortSignal.timeout(this.config.timeoutMs),
+      });
+    } catch (err) {
+      throw new LlmProviderError(`LLM request failed: ${String(err)}`, this.name);
+    }
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new LlmProviderError(
+        `LLM request failed with status ${response.status}: ${body.slice(0, 500)}`,
+        this.name,
+        response.status
+      );
+    }
+
+    const completion = onToken
+      ? await this.readStream(response, onToken)
+      : await this.readCompletion(response);
+
+    if (!completion.content) {
+      throw new LlmProviderError('LLM response contained no content', this.name);
+    }
+
+    return {
+      ...parseReportOutput(completion.content, this.name),
+      model: completion.model ?? this.config.model,
+    };
+  }
+
+  private async readCompletion(
+    response: Response
+  ): Promise<{ content: string | null; model?: string }> {
+    const completion = (await response.json()) as {
+      model?: string;
+      choices?: Array<{ message?: { content?: string | null } }>;
+    };
+
+    return { content: completion.choices?.[0]?.message?.content ?? null, model: completion.model };
+  }
+
+  /**
+   * Read a streamed completion (server-sent `data:` lines), forwarding content deltas
+   */
+  private async readStream(
+    response: Response,
+    onToken: LlmTokenListener
+  ): Promise<{ content: string | null; model?: string }> {
+    if (!response.body) {
+      throw new LlmProviderError('LLM stream has no body', this.name);
+    }
+
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let content = '';
+    let model: string | undefined;
+
+    try {
+      for await (const chunk of response.body) {
+        buffer += decoder.decode(chunk, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+
+        for (const line of lines) {
+          const data = line.trim();
+          if (!data.startsWith('data:')) {
+            continue; // Comments (keep-alives) and blank separators
+          }
+          const payload = data.slice('data:'.length).trim();
+          if (payload === '[DONE]') {
+            continue;
+          }
+
+          const event = JSON.parse(payload) as {
+            model?: string;
+            choices?: Array<{ delta?: { content?: string | null } }>;
+          };
+          model = event.model ?? model;
+          const token = event.choices?.[0]?.delta?.content;
+          if (token) {
+            content += token;
+            onToken(token);
+          }
+        }
+      }
+    } catch (err) {
+      throw new LlmProviderError(`LLM stream failed: ${String(err)}`, this.name);
+    }
+
+    return { content: content || null, model };
+  }
+}
+
+/**
+ * Deterministic local provider for tests and offline development
+ * Produces the same content for the same input without any network access
+ */
+export class FakeLlmProvider implements LlmProvider {
+  readonly name = 'fake';
+
+  constructor(private readonly model: string = 'lifesync-fake-v1') {}
+
+  async generateReport(
+    input: ReportGenerationInput,
+    onToken?: LlmTokenListener
+  ): Promise<ReportGenerationOutput> {
+    const range = `${input.weekStart.slice(0, 10)} – ${input.weekEnd.slice(0, 10)}`;
+
+    const categories = input.categories.map((category) => {
+      const name = category.name ?? category.id;
+      const notes = input.notes.filter((n) => n.category_id === category.id);
+      if (notes.length === 0) {
+        return { category_id: category.id, name, summary: `No notes recorded for ${name}.` };
+      }
+      const latest = notes[0];
+      const excerpt = (latest.title || latest.content).slice(0, 80);
+      return {
+        category_id: category.id,
+        name,
+        summary: `${notes.length} note${notes.length === 1 ? '' : 's'} recorded. Latest: "${excerpt}".`,
+      };
+    });
+
+    const summary =
+      input.notes.length === 0
+        ? `No notes were recorded for ${range}.`
+        : `You wrote ${input.notes.length} note${input.notes.length === 1 ? '' : 's'} across ${categories.length} categor${categories.length === 1 ? 'y' : 'ies'} for ${range}.`;
+
+    const quiet = categories.filter(
+      (c) => !input.notes.some((n) => n.category_id === c.category_id)
+    );
+    const recommendations =
+      quiet.length > 0
+        ? quiet.map((c) => `Set aside a moment for ${c.name} in the coming week.`)
+        : ['Keep your current rhythm and note one small win per category.'];
+
+    // Simulate streaming by emitting the JSON a model would have produced, word by word
+    if (onToken) {
+      JSON.stringify({ summary, categories, recommendations })
+        .split(/(?<= )/)
+        .forEach((token) => onToken(token));
+    }
+
+    return { summary, categories, recommendations, model: this.model };
+  }
+}
+
+/**
+ * Parse and validate raw LLM text into structured report content
+ * Tolerates markdown code fences around the JSON payload
+ */
+function parseReportOutput(content: string, provider: string): LlmReportOutput {
+  const json = content
+    .trim()
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/\s*```$/, '');
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new LlmProviderError('LLM response is not valid JSON', provider);
+  }
+
+  const parsed = LlmReportOutputSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new LlmProviderError(
+      `LLM response has unexpected shape: ${parsed.error.errors.map((e) => e.message).join(', ')}`,
+      provider
+    );
+  }
+
+  return parsed.data;
+}
+
+/**
+ * Build the LLM provider selected by configuration
+ *
+ * Environment:
+ * - LLM_PROVIDER: 'openrouter' | 'fake' (default: 'fake')
+ * - OPENROUTER_API_KEY: required when LLM_PROVIDER=openrouter
+ * - OPENROUTER_MODEL: model id (default: 'openai/gpt-4o-mini')
+ * - OPENROUTER_BASE_URL: API base URL (default: 'https://openrouter.ai/api/v1')
+ * - LLM_TIMEOUT_MS: request timeout in milliseconds (default: 60000)
+ * - APP_URL: optional, sent as HTTP-Referer for OpenRouter attribution
+ */
+export function createLlmProvider(env: NodeJS.ProcessEnv = process.env): LlmProvider {
+  const provider = (env.LLM_PROVIDER || 'fake').toLowerCase();
+
+  switch (provider) {
+    case 'openrouter': {
+      const apiKey = env.OPENROUTER_API_KEY;
+      if (!apiKey) {
+        throw new Error('Missing OPENROUTER_API_KEY env variable');
+      }
+      return new OpenRouterLlmProvider({
+        apiKey,
+        model: env.OPENROUTER_MODEL || 'openai/gpt-4o-mini',
+        baseUrl: (env.OPENROUTER_BASE_URL || 'https://openrouter.ai/api/v1').replace(/\/+$/, ''),
+        timeoutMs: Number(env.LLM_TIMEOUT_MS) || 60000,
+        appUrl: env.APP_URL,
+      });
+    }
+    case 'fake':
+      return new FakeLlmProvider();
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${provider}" (expected 'openrouter' or 'fake')`);
+  }
+}
+
+let defaultProvider: LlmProvider | null = null;
+
+/**
+ * Lazily created, process-wide provider used when services are not given one explicitly
+ */
+export function getLlmProvider(): LlmProvider {
+  if (!defaultProvider) {
+    defaultProvider = createLlmProvider();
+  }
+  return defaultProvider;
+}
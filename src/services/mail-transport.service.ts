@@ -0,0 +1,190 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import nodemailer, { type Transporter } from 'nodemailer';
+
+/**
+ * Email message handed to a transport
+ */
+export type MailMessage = {
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  headers?: Record<string, string>;
+};
+
+/**
+ * Result of a successful send
+ */
+export type MailSendResult = {
+  messageId: string;
+};
+
+/**
+ * Common interface implemented by all mail transports
+ */
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage): Promise<MailSendResult>;
+}
+
+/**
+ * Custom error for when a transport fails to send a message
+ * recipientRejected = the mail server refused the recipient address (a bounce); other
+ * failures, including server or configuration errors, may succeed on a later attempt
+ */
+export class MailTransportError extends Error {
+  constructor(
+    message: string,
+    public readonly transport: string,
+    public readonly recipientRejected: boolean = false
+  ) {
+    super(message);
+    this.name = 'MailTransportError';
+  }
+}
+
+/**
+ * SMTP replies to RCPT TO meaning the recipient address does not exist or is not accepted
+ */
+const RECIPIENT_REJECTED_CODES = [550, 551, 553];
+
+/**
+ * SMTP transport (production)
+ */
+export class SmtpMailTransport implements MailTransport {
+  readonly name = 'smtp';
+  private transporter: Transporter;
+
+  constructor(config: {
+    host: string;
+    port: number;
+    secure: boolean;
+    user?: string;
+    password?: string;
+  }) {
+    this.transporter = nodemailer.createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      auth: config.user ? { user: config.user, pass: config.password } : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<MailSendResult> {
+    try {
+      const info = await this.transporter.sendMail(message);
+      return { messageId: info.messageId };
+    } catch (err) {
+      // Only a rejected recipient is a bounce; other 5xx replies (535 authentication,
+      // 552 message size, 554 relay) are server or configuration problems
+      const { responseCode, command } = err as { responseCode?: number; command?: string };
+      throw new MailTransportError(
+        `SMTP send failed: ${err instanceof Error ? err.message : String(err)}`,
+        this.name,
+        command === 'RCPT TO' &&
+          responseCode !== undefined &&
+          RECIPIENT_REJECTED_CODES.includes(responseCode)
+      );
+    }
+  }
+}
+
+/**
+ * Capture transport for local development: writes every message as an .eml file
+ * (openable in any mail client) into the capture directory
+ */
+export class FileMailTransport implements MailTransport {
+  readonly name = 'file';
+  private transporter: Transporter;
+
+  constructor(private readonly directory: string) {
+    this.transporter = nodemailer.createTransport({
+      streamTransport: true,
+      buffer: true,
+      newline: 'unix',
+    });
+  }
+
+  async send(message: MailMessage): Promise<MailSendResult> {
+    try {
+      const info = await this.transporter.sendMail(message);
+      await mkdir(this.directory, { recursive: true });
+
+      // The address comes from user data: keep it to characters that are safe in file names
+      const recipient = message.to.toLowerCase().replace(/[^a-z0-9@._-]/g, '_');
+      const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${recipient}.eml`;
+      await writeFile(path.join(this.directory, fileName), info.message as Buffer);
+
+      return { messageId: info.messageId };
+    } catch (err) {
+      throw new MailTransportError(
+        `Mail capture failed: ${err instanceof Error ? err.message : String(err)}`,
+        this.name
+      );
+    }
+  }
+}
+
+/**
+ * In-memory capture transport for tests: sent messages are kept in `messages`
+ */
+export class MemoryMailTransport implements MailTransport {
+  readonly name = 'memory';
+  readonly messages: MailMessage[] = [];
+
+  async send(message: MailMessage): Promise<MailSendResult> {
+    this.messages.push(message);
+    return { messageId: `<memory-${this.messages.length}@lifesync.local>` };
+  }
+}
+
+/**
+ * Build the mail transport selected by configuration
+ *
+ * Environment:
+ * - MAIL_TRANSPORT: 'smtp' | 'file' | 'memory' (default: 'file')
+ * - SMTP_HOST, SMTP_PORT (default: 587), SMTP_SECURE ('true' for implicit TLS),
+ *   SMTP_USER, SMTP_PASSWORD: SMTP connection, required when MAIL_TRANSPORT=smtp
+ * - MAIL_CAPTURE_DIR: directory for captured .eml files (default: ./storage/mail)
+ */
+export function createMailTransport(env: NodeJS.ProcessEnv = process.env): MailTransport {
+  const transport = (env.MAIL_TRANSPORT || 'file').toLowerCase();
+
+  switch (transport) {
+    case 'smtp': {
+      const host = env.SMTP_HOST;
+      if (!host) {
+        throw new Error('Missing SMTP_HOST env variable');
+      }
+      return new SmtpMailTransport({
+        host,
+        port: Number(env.SMTP_PORT) || 587,
+        secure: env.SMTP_SECURE === 'true',
+        user: env.SMTP_USER,
+        password: env.SMTP_PASSWORD,
+      });
+    }
+    case 'file':
+      return new FileMailTransport(path.resolve(env.MAIL_CAPTURE_DIR || './storage/mail'));
+    case 'memory':
+      return new MemoryMailTransport();
+    default:
+      throw new Error(
+        `Unknown MAIL_TRANSPORT "${transport}" (expected 'smtp', 'file' or 'memory')`
+      );
+  }
+}
+
+let defaultTransport: MailTransport | null = null;
+
+/**
+ * Lazily created, process-wide transport used when services are not given one explicitly
+ */
+export function getMailTransport(): MailTransport {
+  if (!defaultTransport) {
+    defaultTransport = createMailTransport();
+  }
+  return defaultTransport;
+}
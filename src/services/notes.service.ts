@@ -7,6 +7,8 @@ import type {
   CreateNoteCommand,
   ListNotesResponseDto,
 } from '../types.js';
+import { getDashboardCache, type DashboardCache } from './dashboard-cache.service.js';
+import { domainEvents, type DomainEventBus } from './domain-events.service.js';
 
 /**
  * Custom error for when a category is not active in user preferences
@@ -60,8 +62,14 @@ export class NotesService {
   /**
    * Initialize service with Supabase client
    * @param userClient - User-scoped Supabase client (for RLS enforcement)
+   * @param dashboardCache - Dashboard cache invalidated when the user's notes change
+   * @param events - Bus receiving note domain events (recorded as analytics)
    */
-  constructor(private userClient: SupabaseClient<Database>) {}
+  constructor(
+    private userClient: SupabaseClient<Database>,
+    private dashboardCache: DashboardCache = getDashboardCache(),
+    private events: DomainEventBus = domainEvents
+  ) {}
 
   /**
    * Retrieve paginated list of notes for authenticated user with optional filtering
@@ -242,6 +250,11 @@ export class NotesService {
 
     // Step 5: Check daily limit
     if (notesTodayCount >= preferences.max_daily_notes) {
+      this.events.publish('limit_exceeded', userId, {
+        limit: 'daily_notes',
+        category_id: categoryId,
+        max: preferences.max_daily_notes,
+      });
       throw new DailyLimitExceededError(categoryId, preferences.max_daily_notes, notesTodayCount);
     }
 
@@ -267,6 +280,12 @@ export class NotesService {
       throw new Error('Note creation returned no data');
     }
 
+    await this.dashboardCache.invalidate(userId);
+    this.events.publish('note_created', userId, {
+      note_id: createdNote.id,
+      category_id: createdNote.category_id,
+    });
+
     return createdNote as NoteDto;
   }
 
@@ -353,6 +372,9 @@ export class NotesService {
     if (updateError) {
       throw new Error(`Failed to delete note: ${updateError.message}`);
     }
+
+    await this.dashboardCache.invalidate(userId);
+    this.events.publish('note_deleted', userId, { note_id: noteId });
   }
 
   /**
@@ -470,6 +492,13 @@ export class NotesService {
       throw new Error('Note update returned no data');
     }
 
+    await this.dashboardCache.invalidate(userId);
+    this.events.publish('note_updated', userId, {
+      note_id: noteId,
+      category_id: updatedNote.category_id,
+      changed_fields: Object.keys(updateData).filter((field) => field !== 'updated_at'),
+    });
+
     return updatedNote as NoteDto;
   }
 
@@ -2,6 +2,7 @@ import { SupabaseClient } from '@supabase/supabase-js';
 import type { Database } from '../db/database.types.js';
 import type { UUID, PreferencesDto, UpdatePreferencesCommand } from '../types.js';
 import { supabaseClient } from '../db/supabase.client.js';
+import { getDashboardCache, type DashboardCache } from './dashboard-cache.service.js';
 
 /**
  * Custom error for when user preferences are not found
@@ -32,10 +33,12 @@ export class PreferencesService {
    * Initialize service with Supabase client
    * @param userClient - User-scoped Supabase client (for RLS enforcement)
    * @param adminClient - Admin Supabase client (for category validation queries)
+   * @param dashboardCache - Dashboard cache invalidated when active categories change
    */
   constructor(
     private userClient: SupabaseClient<Database>,
-    private adminClient: SupabaseClient<Database> = supabaseClient
+    private adminClient: SupabaseClient<Database> = supabaseClient,
+    private dashboardCache: DashboardCache = getDashboardCache()
   ) {}
 
   /**
@@ -112,6 +115,8 @@ export class PreferencesService {
       throw new PreferencesNotFoundError(userId);
     }
 
+    await this.dashboardCache.invalidate(userId);
+
     return updatedPreference as PreferencesDto;
   }
 
@@ -145,4 +150,78 @@ export class PreferencesService {
 
     return preferences as PreferencesDto;
   }
+
+  /**
+   * Opt the user out of email delivery
+   * Idempotent: an existing email_unsubscribed_at is kept
+   *
+   * @param userId - UUID of the user
+   * @returns Time the user unsubscribed
+   * @throws PreferencesNotFoundError if preferences record doesn't exist
+   */
+  async unsubscribeFromEmail(userId: UUID): Promise<string> {
+    const { data: updated, error } = await this.userClient
+      .from('preferences')
+      .update({ email_unsubscribed_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .is('email_unsubscribed_at', null)
+      .select('email_unsubscribed_at')
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to unsubscribe from email: ${error.message}`);
+    }
+
+    if (updated?.email_unsubscribed_at) {
+      return updated.email_unsubscribed_at;
+    }
+
+    // Nothing updated: already unsubscribed, or no preferences at all
+    const preferences = await this.getPreferences(userId);
+    return preferences.email_unsubscribed_at as string;
+  }
+
+  /**
+   * Reverse an email unsubscribe (clears email_unsubscribed_at)
+   *
+   * @param userId - UUID of the user
+   * @returns Updated PreferencesDto
+   * @throws PreferencesNotFoundError if preferences record doesn't exist
+   */
+  async resubscribeToEmail(userId: UUID): Promise<PreferencesDto> {
+    const { data: preferences, error } = await this.userClient
+      .from('preferences')
+      .update({ email_unsubscribed_at: null })
+      .eq('user_id', userId)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to resubscribe to email: ${error.message}`);
+    }
+
+    if (!preferences) {
+      throw new PreferencesNotFoundError(userId);
+    }
+
+    return preferences as PreferencesDto;
+  }
+
+  /**
+   * Create default preferences for the user unless they already exist
+   * Used at sign-up with the service role client; column defaults apply (in-app delivery,
+   * Monday 02:00 reports, no active categories)
+   *
+   * @param userId - UUID of the new user (the profile must exist)
+   * @throws Error for unexpected database or network errors
+   */
+  async ensureDefaultPreferences(userId: UUID): Promise<void> {
+    const { error } = await this.userClient
+      .from('preferences')
+      .upsert({ user_id: userId }, { onConflict: 'user_id', ignoreDuplicates: true });
+
+    if (error) {
+      throw new Error(`Failed to create preferences: ${error.message}`);
+    }
+  }
 }
@@ -104,4 +104,22 @@ export class ProfileService {
 
     return updatedProfile as ProfileDto;
   }
+
+  /**
+   * Create the user's profile unless it already exists
+   * Used at sign-up with the service role client; an existing profile is left unchanged
+   *
+   * @param userId - UUID of the new user
+   * @param timezone - Initial timezone of the user
+   * @throws Error for unexpected database or network errors
+   */
+  async ensureProfile(userId: UUID, timezone: string): Promise<void> {
+    const { error } = await this.userClient
+      .from('profiles')
+      .upsert({ user_id: userId, timezone }, { onConflict: 'user_id', ignoreDuplicates: true });
+
+    if (error) {
+      throw new Error(`Failed to create profile: ${error.message}`);
+    }
+  }
 }
@@ -0,0 +1,215 @@
+import { createHash } from 'node:crypto';
+import type { UUID } from '../types.js';
+import { REPORT_PROMPT_NAME, REPORT_PROMPT_TEMPLATES } from '../config/system-prompt.js';
+
+/**
+ * Named, versioned prompt template
+ * system/user may reference variables as {{variable_name}}
+ */
+export type PromptTemplate = {
+  name: string;
+  version: string;
+  description: string;
+  system: string;
+  user: string;
+  variables: string[];
+};
+
+/**
+ * Prompt template with all variables substituted, ready to send to an LLM
+ */
+export type RenderedPrompt = {
+  name: string;
+  version: string;
+  system: string;
+  user: string;
+};
+
+/**
+ * Version pin for a prompt name: a default version plus an optional A/B candidate
+ * candidatePercent is the share of users (0-100) that receive the candidate version
+ */
+export type PromptPin = {
+  defaultVersion: string;
+  candidateVersion: string | null;
+  candidatePercent: number;
+};
+
+/**
+ * Custom error for when a prompt name/version is not registered
+ */
+export class PromptNotFoundError extends Error {
+  constructor(
+    public readonly promptName: string,
+    public readonly version?: string
+  ) {
+    super(
+      version
+        ? `Prompt ${promptName}@${version} is not registered`
+        : `Prompt ${promptName} is not registered`
+    );
+    this.name = 'PromptNotFoundError';
+  }
+}
+
+/**
+ * Custom error for when a template references a variable that was not provided
+ */
+export class PromptVariableMissingError extends Error {
+  constructor(
+    public readonly promptName: string,
+    public readonly variable: string
+  ) {
+    super(`Prompt ${promptName} requires variable "${variable}"`);
+    this.name = 'PromptVariableMissingError';
+  }
+}
+
+/**
+ * PromptRegistry holds versioned prompt templates and decides which version a user gets
+ *
+ * Version assignment is deterministic per (prompt name, user): the same user always lands
+ * in the same A/B bucket, so a user's reports are comparable week over week
+ */
+export class PromptRegistry {
+  private templates = new Map<string, PromptTemplate>();
+  private pins = new Map<string, PromptPin>();
+
+  /**
+   * Register a template; registering the same name@version twice is a programming error
+   */
+  register(template: PromptTemplate): void {
+    const key = this.key(template.name, template.version);
+    if (this.templates.has(key)) {
+      throw new Error(`Prompt ${key} is already registered`);
+    }
+    this.templates.set(key, template);
+  }
+
+  /**
+   * Retrieve a specific template version
+   * @throws PromptNotFoundError if not registered
+   */
+  get(name: string, version: string): PromptTemplate {
+    const template = this.templates.get(this.key(name, version));
+    if (!template) {
+      throw new PromptNotFoundError(name, version);
+    }
+    return template;
+  }
+
+  /**
+   * List registered templates, optionally restricted to one prompt name
+   */
+  list(name?: string): PromptTemplate[] {
+    return [...this.templates.values()].filter((t) => !name || t.name === name);
+  }
+
+  /**
+   * Pin the default version (and optional A/B candidate) for a prompt name
+   * @throws PromptNotFoundError if a pinned version is not registered
+   */
+  pin(
+    name: string,
+    defaultVersion: string,
+    candidate?: { version: string; percent: number }
+  ): void {
+    this.get(name, defaultVersion);
+    if (candidate) {
+      this.get(name, candidate.version);
+    }
+
+    this.pins.set(name, {
+      defaultVersion,
+      candidateVersion: candidate?.version ?? null,
+      candidatePercent: candidate ? Math.min(100, Math.max(0, candidate.percent)) : 0,
+    });
+  }
+
+  /**
+   * Current pin for a prompt name
+   * @throws PromptNotFoundError if the prompt was never pinned
+   */
+  getPin(name: string): PromptPin {
+    const pin = this.pins.get(name);
+    if (!pin) {
+      throw new PromptNotFoundError(name);
+    }
+    return pin;
+  }
+
+  /**
+   * Resolve which template version a user should receive
+   */
+  resolveForUser(name: string, userId: UUID): PromptTemplate {
+    const pin = this.getPin(name);
+
+    if (pin.candidateVersion && this.bucket(name, userId) < pin.candidatePercent) {
+      return this.get(name, pin.candidateVersion);
+    }
+
+    return this.get(name, pin.defaultVersion);
+  }
+
+  /**
+   * Substitute {{variables}} in the template
+   * @throws PromptVariableMissingError if a declared variable is not provided
+   */
+  render(template: PromptTemplate, variables: Record<string, string>): RenderedPrompt {
+    for (const variable of template.variables) {
+      if (variables[variable] === undefined) {
+        throw new PromptVariableMissingError(template.name, variable);
+      }
+    }
+
+    const substitute = (text: string) =>
+      text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, variable: string) =>
+        variables[variable] !== undefined ? variables[variable] : match
+      );
+
+    return {
+      name: template.name,
+      version: template.version,
+      system: substitute(template.system),
+      user: substitute(template.user),
+    };
+  }
+
+  private key(name: string, version: string): string {
+    return `${name}@${version}`;
+  }
+
+  /**
+   * Stable bucket 0-99 for a (prompt name, user) pair
+   */
+  private bucket(name: string, userId: UUID): number {
+    const digest = createHash('sha256').update(`${name}:${userId}`).digest();
+    return digest.readUInt32BE(0) % 100;
+  }
+}
+
+/**
+ * Build the registry with all bundled templates and pins taken from configuration
+ *
+ * Environment:
+ * - REPORT_PROMPT_VERSION: default version for weekly reports (default: latest stable, 'v1.0')
+ * - REPORT_PROMPT_CANDIDATE_VERSION: optional candidate version for A/B testing
+ * - REPORT_PROMPT_CANDIDATE_PERCENT: share of users (0-100) receiving the candidate (default: 0)
+ */
+export function createPromptRegistry(env: NodeJS.ProcessEnv = process.env): PromptRegistry {
+  const registry = new PromptRegistry();
+  REPORT_PROMPT_TEMPLATES.forEach((template) => registry.register(template));
+
+  const candidateVersion = env.REPORT_PROMPT_CANDIDATE_VERSION;
+  registry.pin(
+    REPORT_PROMPT_NAME,
+    env.REPORT_PROMPT_VERSION || 'v1.0',
+    candidateVersion
+      ? { version: candidateVersion, percent: Number(env.REPORT_PROMPT_CANDIDATE_PERCENT) || 0 }
+      : undefined
+  );
+
+  return registry;
+}
+
+export const promptRegistry = createPromptRegistry();
@@ -0,0 +1,193 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../db/database.types.js';
+import type {
+  UUID,
+  PromptFeedbackStatsDto,
+  PromptVersionDto,
+  ListPromptVersionsResponseDto,
+  ListPromptVersionReportsResponseDto,
+  PromptVersionReportDto,
+} from '../types.js';
+import type { ListPromptVersionReportsQuery } from '../validation/prompt-versions.js';
+import { supabaseClient } from '../db/supabase.client.js';
+import { promptRegistry, type PromptRegistry } from './prompt-registry.service.js';
+import { REPORT_PROMPT_NAME } from '../config/system-prompt.js';
+
+/**
+ * PromptVersionsService correlates prompt versions with the reports they produced
+ * and the feedback those reports received
+ *
+ * Internal-only: uses the admin client because the statistics span all users
+ */
+export class PromptVersionsService {
+  /**
+   * Initialize service with Supabase client
+   * @param adminClient - Admin Supabase client (statistics are cross-user)
+   * @param prompts - Prompt registry providing versions and pins
+   */
+  constructor(
+    private adminClient: SupabaseClient<Database> = supabaseClient,
+    private prompts: PromptRegistry = promptRegistry
+  ) {}
+
+  /**
+   * List registered weekly report prompt versions with report counts and feedback statistics
+   *
+   * Statistics come from count queries (four per version), independent of the number of
+   * reports
+   *
+   * @returns ListPromptVersionsResponseDto with one entry per registered version
+   * @throws Error if database queries fail
+   */
+  async listPromptVersions(): Promise<ListPromptVersionsResponseDto> {
+    const pin = this.prompts.getPin(REPORT_PROMPT_NAME);
+    const items: PromptVersionDto[] = [];
+
+    for (const template of this.prompts.list(REPORT_PROMPT_NAME)) {
+      const [reportsCount, positive, neutral, negative] = await Promise.all([
+        this.countReports(template.version),
+        this.countFeedback(template.version, 1),
+        this.countFeedback(template.version, 0),
+        this.countFeedback(template.version, -1),
+      ]);
+
+      items.push({
+        name: template.name,
+        version: template.version,
+        description: template.description,
+        is_default: pin.defaultVersion === template.version,
+        is_candidate: pin.candidateVersion === template.version,
+        candidate_percent: pin.candidateVersion === template.version ? pin.candidatePercent : 0,
+        reports_count: reportsCount,
+        feedback: this.summarizeRatings(positive, neutral, negative),
+      });
+    }
+
+    return { items };
+  }
+
+  /**
+   * List reports produced by a prompt version together with their feedback
+   *
+   * @param version - Prompt version as stored in reports.system_prompt_version
+   * @param query - Pagination (limit, offset)
+   * @returns Paginated reports, newest first, including soft-deleted reports
+   * @throws Error if database queries fail
+   */
+  async listReportsForVersion(
+    version: string,
+    query: ListPromptVersionReportsQuery
+  ): Promise<ListPromptVersionReportsResponseDto> {
+    const { limit = 20, offset = 0 } = query;
+
+    const {
+      data: reports,
+      error,
+      count,
+    } = await this.adminClient
+      .from('reports')
+      .select('id, user_id, generated_by, llm_model, system_prompt_version, created_at', {
+        count: 'exact',
+      })
+      .eq('system_prompt_version', version)
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      console.error('PromptVersionsService.listReportsForVersion error:', error);
+      throw new Error(`Failed to retrieve reports: ${error.message}`);
+    }
+
+    const ratings = await this.fetchRatings((reports || []).map((r) => r.id));
+
+    const items: PromptVersionReportDto[] = (reports || []).map((report) => ({
+      ...report,
+      rating: ratings.get(report.id)?.rating ?? null,
+      comment: ratings.get(report.id)?.comment ?? null,
+    }));
+
+    return { items, total: count ?? 0, limit, offset };
+  }
+
+  /**
+   * Number of reports generated with a prompt version (including soft-deleted ones)
+   */
+  private async countReports(version: string): Promise<number> {
+    const { count, error } = await this.adminClient
+      .from('reports')
+      .select('id', { count: 'exact', head: true })
+      .eq('system_prompt_version', version);
+
+    if (error) {
+      console.error('PromptVersionsService.countReports error:', error);
+      throw new Error(`Failed to count reports: ${error.message}`);
+    }
+
+    return count ?? 0;
+  }
+
+  /**
+   * Number of feedback entries with a rating on reports of a prompt version
+   */
+  private async countFeedback(version: string, rating: number): Promise<number> {
+    const { count, error } = await this.adminClient
+      .from('report_feedback')
+      .select('id, reports!inner(system_prompt_version)', { count: 'exact', head: true })
+      .eq('reports.system_prompt_version', version)
+      .eq('rating', rating);
+
+    if (error) {
+      console.error('PromptVersionsService.countFeedback error:', error);
+      throw new Error(`Failed to count feedback: ${error.message}`);
+    }
+
+    return count ?? 0;
+  }
+
+  /**
+   * Fetch feedback for the given reports, keyed by report id
+   */
+  private async fetchRatings(
+    reportIds: UUID[]
+  ): Promise<Map<UUID, { rating: number; comment: string | null }>> {
+    const ratings = new Map<UUID, { rating: number; comment: string | null }>();
+
+    // Chunk ids to keep the `in` filter within URL length limits
+    for (let i = 0; i < reportIds.length; i += 200) {
+      const chunk = reportIds.slice(i, i + 200);
+      const { data, error } = await this.adminClient
+        .from('report_feedback')
+        .select('report_id, rating, comment')
+        .in('report_id', chunk);
+
+      if (error) {
+        console.error('PromptVersionsService.fetchRatings error:', error);
+        throw new Error(`Failed to retrieve feedback: ${error.message}`);
+      }
+
+      (data || []).forEach((f) =>
+        ratings.set(f.report_id, { rating: f.rating, comment: f.comment })
+      );
+    }
+
+    return ratings;
+  }
+
+  /**
+   * Aggregate rating counts (1, 0, -1) into totals and an average
+   */
+  private summarizeRatings(
+    positive: number,
+    neutral: number,
+    negative: number
+  ): PromptFeedbackStatsDto {
+    const count = positive + neutral + negative;
+    return {
+      count,
+      positive,
+      neutral,
+      negative,
+      average_rating: count ? Number(((positive - negative) / count).toFixed(3)) : null,
+    };
+  }
+}
@@ -5,10 +5,17 @@ import type {
   ReportDeliveryDto,
   ListReportDeliveriesResponseDto,
   EmailDeliveryResponseDto,
+  InboxItemDto,
+  InboxResponseDto,
   DeliveryChannel,
   DeliveryStatus,
 } from '../types.js';
 import type { ListReportDeliveriesQuery } from '../validation/report-deliveries.js';
+import {
+  domainEvents,
+  type DomainEventBus,
+  type DomainEventName,
+} from './domain-events.service.js';
 
 /**
  * Custom error for when a report is not found or user doesn't own it
@@ -70,6 +77,66 @@ export class DeliveryNotFoundError extends Error {
   }
 }
 
+/**
+ * Custom error for when a delivery status change is not allowed by the lifecycle
+ */
+export class InvalidDeliveryTransitionError extends Error {
+  constructor(
+    public readonly from: DeliveryStatus,
+    public readonly to: DeliveryStatus
+  ) {
+    super(`Delivery status cannot change from '${from}' to '${to}'`);
+    this.name = 'InvalidDeliveryTransitionError';
+  }
+}
+
+/**
+ * Custom error for when a delivery changed status concurrently
+ */
+export class DeliveryStatusConflictError extends Error {
+  constructor(
+    public readonly deliveryId: UUID,
+    public readonly expected: DeliveryStatus
+  ) {
+    super(`Report delivery ${deliveryId} is no longer '${expected}'`);
+    this.name = 'DeliveryStatusConflictError';
+  }
+}
+
+/**
+ * Allowed delivery status transitions
+ *
+ * - queued -> opened covers in-app deliveries, which are shown without a send step
+ * - retrying -> retrying records another failed attempt
+ * - queued/retrying -> cancelled stops an email the user unsubscribed from
+ * - failed/bounced/cancelled -> queued re-sends an email
+ */
+export const DELIVERY_STATUS_TRANSITIONS: Record<DeliveryStatus, DeliveryStatus[]> = {
+  queued: ['sent', 'retrying', 'failed', 'bounced', 'cancelled', 'opened'],
+  retrying: ['sent', 'retrying', 'failed', 'bounced', 'cancelled'],
+  sent: ['opened', 'bounced'],
+  opened: [],
+  failed: ['queued'],
+  bounced: ['queued'],
+  cancelled: ['queued'],
+};
+
+/**
+ * Domain events published when a delivery enters a status (re-queueing counts as queued)
+ */
+const DELIVERY_STATUS_EVENTS: Partial<Record<DeliveryStatus, DomainEventName>> = {
+  queued: 'delivery_queued',
+  sent: 'delivery_sent',
+  opened: 'delivery_opened',
+  failed: 'delivery_failed',
+  bounced: 'delivery_failed',
+};
+
+/**
+ * Maximum number of deliveries returned by the inbox
+ */
+const INBOX_LIMIT = 20;
+
 /**
  * ReportDeliveriesService handles report delivery operations
  * Manages listing, filtering, pagination, and creation of report deliveries
@@ -81,8 +148,12 @@ export class ReportDeliveriesService {
   /**
    * Initialize service with Supabase client
    * @param userClient - User-scoped Supabase client (for RLS enforcement via JWT)
+   * @param events - Bus receiving delivery domain events (recorded as analytics)
    */
-  constructor(private userClient: SupabaseClient<Database>) {}
+  constructor(
+    private userClient: SupabaseClient<Database>,
+    private events: DomainEventBus = domainEvents
+  ) {}
 
   /**
    * Retrieve paginated list of report deliveries for authenticated user with optional filtering
@@ -153,6 +224,91 @@ export class ReportDeliveriesService {
     };
   }
 
+  /**
+   * Retrieve the user's inbox: unopened in_app deliveries with report metadata
+   *
+   * Excludes dismissed deliveries, deliveries snoozed past `now` and deleted reports.
+   * Most recent first, at most INBOX_LIMIT items (total counts all of them)
+   *
+   * @param userId - UUID of the authenticated user
+   * @param now - Instant snoozes are compared against (default: current time)
+   * @returns InboxResponseDto
+   * @throws Error if database query fails
+   */
+  async getInbox(userId: UUID, now: Date = new Date()): Promise<InboxResponseDto> {
+    const { data, error, count } = await this.userClient
+      .from('report_deliveries')
+      .select(
+        'id, report_id, status, queued_at, sent_at, snoozed_until, report:reports!inner(id, generated_by, created_at)',
+        { count: 'exact' }
+      )
+      .eq('user_id', userId)
+      .eq('channel', 'in_app')
+      .is('opened_at', null)
+      .is('dismissed_at', null)
+      .or(`snoozed_until.is.null,snoozed_until.lte.${now.toISOString()}`)
+      .is('report.deleted_at', null)
+      .order('created_at', { ascending: false })
+      .limit(INBOX_LIMIT);
+
+    if (error) {
+      console.error('ReportDeliveriesService.getInbox error:', error);
+      throw new Error(`Failed to retrieve inbox: ${error.message}`);
+    }
+
+    return {
+      items: (data || []) as InboxItemDto[],
+      total: count ?? 0,
+    };
+  }
+
+  /**
+   * Hide an in_app delivery from the inbox for good (the report stays unopened)
+   *
+   * @param userId - UUID of the authenticated user
+   * @param deliveryId - UUID of the in_app delivery
+   * @throws DeliveryNotFoundError if delivery doesn't exist, isn't in_app or user doesn't own it
+   */
+  async dismissInboxDelivery(userId: UUID, deliveryId: UUID): Promise<void> {
+    await this.updateInboxState(userId, deliveryId, { dismissed_at: new Date().toISOString() });
+  }
+
+  /**
+   * Hide an in_app delivery from the inbox until a given time
+   *
+   * @param userId - UUID of the authenticated user
+   * @param deliveryId - UUID of the in_app delivery
+   * @param until - ISO datetime after which the delivery shows again
+   * @throws DeliveryNotFoundError if delivery doesn't exist, isn't in_app or user doesn't own it
+   */
+  async snoozeInboxDelivery(userId: UUID, deliveryId: UUID, until: string): Promise<void> {
+    await this.updateInboxState(userId, deliveryId, { snoozed_until: until });
+  }
+
+  private async updateInboxState(
+    userId: UUID,
+    deliveryId: UUID,
+    changes: { dismissed_at?: string; snoozed_until?: string }
+  ): Promise<void> {
+    const { data: delivery, error } = await this.userClient
+      .from('report_deliveries')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', deliveryId)
+      .eq('user_id', userId)
+      .eq('channel', 'in_app')
+      .select('id')
+      .maybeSingle();
+
+    if (error) {
+      console.error('ReportDeliveriesService.updateInboxState error:', error);
+      throw new Error(`Failed to update delivery: ${error.message}`);
+    }
+
+    if (!delivery) {
+      throw new DeliveryNotFoundError(deliveryId);
+    }
+  }
+
   /**
    * Queue email delivery for a report if user preferences allow
    *
@@ -162,6 +318,7 @@ export class ReportDeliveriesService {
    * 3. Verify email is in preferred_delivery_channels
    * 4. Verify user has not unsubscribed (email_unsubscribed_at is NULL)
    * 5. Verify no delivery already queued for this report+channel
+   *    (a failed, bounced or cancelled delivery is re-queued instead: this re-sends the email)
    * 6. Create new delivery record with status='queued'
    *
    * @param userId - UUID of the authenticated user
@@ -171,7 +328,8 @@ export class ReportDeliveriesService {
    * @throws PreferencesNotFoundError if preferences don't exist
    * @throws EmailUnsubscribedError if user has opted out
    * @throws EmailNotPreferredError if email not in preferred channels
-   * @throws DeliveryAlreadyExistsError if delivery already queued
+   * @throws DeliveryAlreadyExistsError if delivery already queued or sent
+   * @throws DeliveryStatusConflictError if a failed delivery changed status while re-queueing
    */
   async queueEmailDelivery(userId: UUID, reportId: UUID): Promise<EmailDeliveryResponseDto> {
     // Step 1: Fetch report (RLS ensures user ownership)
@@ -225,7 +383,7 @@ export class ReportDeliveriesService {
     // Step 5: Check if delivery already exists for this report
     const { data: existingDelivery, error: existingError } = await this.userClient
       .from('report_deliveries')
-      .select('id')
+      .select('id, status')
       .eq('report_id', reportId)
       .eq('channel', 'email')
       .eq('user_id', userId)
@@ -240,7 +398,10 @@ export class ReportDeliveriesService {
     }
 
     if (existingDelivery) {
-      throw new DeliveryAlreadyExistsError(reportId);
+      if (!DELIVERY_STATUS_TRANSITIONS[existingDelivery.status].includes('queued')) {
+        throw new DeliveryAlreadyExistsError(reportId);
+      }
+      return this.requeueEmailDelivery(userId, existingDelivery.id, existingDelivery.status);
     }
 
     // Step 6: Create new delivery record
@@ -270,6 +431,13 @@ export class ReportDeliveriesService {
       throw new Error('Failed to create delivery: no data returned');
     }
 
+    this.events.publish('delivery_queued', userId, {
+      delivery_id: delivery.id,
+      report_id: reportId,
+      channel: 'email',
+      requeued: false,
+    });
+
     return {
       delivery: {
         id: delivery.id,
@@ -279,24 +447,135 @@ export class ReportDeliveriesService {
     };
   }
 
+  /**
+   * Change a delivery's status, enforcing the delivery lifecycle
+   *
+   * The update is conditional on the current status, so concurrent changes are detected
+   * instead of overwritten. Scope is given by the client (RLS for user clients)
+   *
+   * @param deliveryId - UUID of the delivery
+   * @param from - Status the delivery is expected to have
+   * @param to - New status
+   * @param changes - Additional columns to update together with the status
+   * @returns Updated ReportDeliveryDto
+   * @throws InvalidDeliveryTransitionError if the lifecycle does not allow from -> to
+   * @throws DeliveryStatusConflictError if the delivery no longer has status `from`
+   */
+  async transitionDeliveryStatus(
+    deliveryId: UUID,
+    from: DeliveryStatus,
+    to: DeliveryStatus,
+    changes: Omit<Database['public']['Tables']['report_deliveries']['Update'], 'status'> = {}
+  ): Promise<ReportDeliveryDto> {
+    if (!DELIVERY_STATUS_TRANSITIONS[from].includes(to)) {
+      throw new InvalidDeliveryTransitionError(from, to);
+    }
+
+    const { data: delivery, error } = await this.userClient
+      .from('report_deliveries')
+      .update({ ...changes, status: to, updated_at: new Date().toISOString() })
+      .eq('id', deliveryId)
+      .eq('status', from)
+      .select('*')
+      .maybeSingle();
+
+    if (error) {
+      console.error('ReportDeliveriesService.transitionDeliveryStatus error:', error);
+      throw new Error(`Failed to update delivery: ${error.message}`);
+    }
+
+    if (!delivery) {
+      throw new DeliveryStatusConflictError(deliveryId, from);
+    }
+
+    const event = DELIVERY_STATUS_EVENTS[to];
+    if (event) {
+      this.events.publish(event, delivery.user_id, {
+        delivery_id: delivery.id,
+        report_id: delivery.report_id,
+        channel: delivery.channel,
+        status: to,
+        ...(to === 'queued' ? { requeued: true } : {}),
+      });
+    }
+
+    return delivery as ReportDeliveryDto;
+  }
+
+  /**
+   * Cancel the user's email deliveries that have not been sent yet (queued or retrying)
+   *
+   * @param userId - UUID of the user
+   * @returns Number of cancelled deliveries
+   */
+  async cancelPendingEmailDeliveries(userId: UUID): Promise<number> {
+    // Bulk form of queued|retrying -> cancelled, both allowed by DELIVERY_STATUS_TRANSITIONS
+    const { data, error } = await this.userClient
+      .from('report_deliveries')
+      .update({
+        status: 'cancelled' as const,
+        next_attempt_at: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('user_id', userId)
+      .eq('channel', 'email')
+      .in('status', ['queued', 'retrying'])
+      .select('id');
+
+    if (error) {
+      console.error('ReportDeliveriesService.cancelPendingEmailDeliveries error:', error);
+      throw new Error(`Failed to cancel email deliveries: ${error.message}`);
+    }
+
+    return data?.length ?? 0;
+  }
+
+  /**
+   * Re-queue a failed, bounced or cancelled email delivery with a fresh retry budget
+   */
+  private async requeueEmailDelivery(
+    userId: UUID,
+    deliveryId: UUID,
+    from: DeliveryStatus
+  ): Promise<EmailDeliveryResponseDto> {
+    const delivery = await this.transitionDeliveryStatus(deliveryId, from, 'queued', {
+      attempts: 0,
+      last_error: null,
+      next_attempt_at: null,
+      queued_at: new Date().toISOString(),
+    });
+
+    console.log(`[INFO] ${from} email delivery ${deliveryId} re-queued by user ${userId}`);
+
+    return {
+      delivery: {
+        id: delivery.id,
+        status: delivery.status,
+        channel: delivery.channel,
+      },
+    };
+  }
+
   /**
    * Mark a report delivery as opened by updating its status to 'opened'
    *
    * Performs validation:
    * 1. Verify delivery exists and user owns it
-   * 2. Update delivery status to 'opened' with current timestamp
-   * 3. Return void on success
+   * 2. Return early if it is already opened (idempotent)
+   * 3. Update delivery status to 'opened' with current timestamp
    *
    * @param userId - UUID of the authenticated user
    * @param deliveryId - UUID of the delivery to mark as opened
    * @returns void
    * @throws DeliveryNotFoundError if delivery doesn't exist or user doesn't own it
+   * @throws InvalidDeliveryTransitionError if the delivery was never sent (retrying, failed, bounced, cancelled)
+   * @throws DeliveryStatusConflictError if the delivery changed status concurrently
    */
   async markDeliveryOpened(userId: UUID, deliveryId: UUID): Promise<void> {
     // Step 1: Fetch delivery to verify existence and ownership
     const { data: delivery, error: fetchError } = await this.userClient
       .from('report_deliveries')
-      .select('id, user_id')
+      .select('id, user_id, status')
       .eq('id', deliveryId)
       .eq('user_id', userId)
       .maybeSingle();
@@ -310,20 +589,14 @@ export class ReportDeliveriesService {
       throw new DeliveryNotFoundError(deliveryId);
     }
 
-    // Step 2: Update delivery with status='opened' and opened_at=now()
-    const { error: updateError } = await this.userClient
-      .from('report_deliveries')
-      .update({
-        status: 'opened' as const,
-        opened_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', deliveryId)
-      .eq('user_id', userId);
-
-    if (updateError) {
-      console.error('ReportDeliveriesService.markDeliveryOpened update error:', updateError);
-      throw new Error(`Failed to update delivery: ${updateError.message}`);
+    // Step 2: Already opened deliveries keep their first opened_at
+    if (delivery.status === 'opened') {
+      return;
     }
+
+    // Step 3: Transition to 'opened' with opened_at=now()
+    await this.transitionDeliveryStatus(deliveryId, delivery.status, 'opened', {
+      opened_at: new Date().toISOString(),
+    });
   }
 }
@@ -0,0 +1,238 @@
+import type { ReportDto } from '../types.js';
+import { escapeHtml } from './reports.service.js';
+
+/**
+ * Feedback ratings offered as emoji buttons (same values as POST /api/feedback)
+ */
+export type FeedbackRating = -1 | 0 | 1;
+
+/**
+ * Links placed in a report email
+ */
+export type ReportEmailLinks = {
+  /** "Open in LifeSync" button */
+  reportUrl: string;
+  /** Emoji feedback buttons, deep links to the rating in the app */
+  feedbackUrls: Record<FeedbackRating, string>;
+  /** Unsubscribe link in the footer */
+  unsubscribeUrl: string;
+  /** Open tracking pixel (omitted in previews) */
+  pixelUrl?: string;
+};
+
+/**
+ * Rendered email: subject, HTML body and plain-text alternative
+ */
+export type RenderedEmail = {
+  subject: string;
+  html: string;
+  text: string;
+};
+
+/**
+ * Report content recovered from the stored HTML fragment; text is already HTML-escaped
+ */
+type ParsedReport = {
+  summaryHtml: string;
+  categories: Array<{ nameHtml: string; summaryHtml: string }>;
+  recommendationsHtml: string[];
+};
+
+const FEEDBACK_OPTIONS: Array<{ rating: FeedbackRating; emoji: string; label: string }> = [
+  { rating: 1, emoji: '🙂', label: 'Helpful' },
+  { rating: 0, emoji: '😐', label: 'Okay' },
+  { rating: -1, emoji: '🙁', label: 'Not helpful' },
+];
+
+const FONT = "font-family:-apple-system,'Segoe UI',Roboto,Helvetica,Arial,sans-serif;";
+const COLOR_TEXT = '#1f2933';
+const COLOR_MUTED = '#616e7c';
+const COLOR_ACCENT = '#4f46e5';
+
+/**
+ * Recover summary, category sections and recommendations from a report fragment
+ * as rendered by ReportsService
+ *
+ * @returns null if the fragment does not have the expected structure
+ */
+export function parseReportHtml(html: string): ParsedReport | null {
+  const summary = /<p class="report-summary">([^<]*)<\/p>/.exec(html);
+  if (!summary) {
+    return null;
+  }
+
+  const categories = [
+    ...html.matchAll(
+      /<section class="report-category"[^>]*><h2>([^<]*)<\/h2><p>([^<]*)<\/p><\/section>/g
+    ),
+  ].map((match) => ({ nameHtml: match[1], summaryHtml: match[2] }));
+
+  const recommendationsSection =
+    /<section class="report-recommendations">(.*?)<\/section>/s.exec(html)?.[1] ?? '';
+  const recommendationsHtml = [...recommendationsSection.matchAll(/<li>([^<]*)<\/li>/g)].map(
+    (match) => match[1]
+  );
+
+  return { summaryHtml: summary[1], categories, recommendationsHtml };
+}
+
+/**
+ * Subject line of a report email
+ */
+export function reportEmailSubject(report: Pick<ReportDto, 'generated_by'>): string {
+  return report.generated_by === 'scheduled'
+    ? 'Your weekly LifeSync report'
+    : 'Your LifeSync report is ready';
+}
+
+/**
+ * Heading of a rendered report (email header, PDF title)
+ */
+export function reportHeading(report: Pick<ReportDto, 'generated_by'>): string {
+  return report.generated_by === 'scheduled' ? 'Weekly Report' : 'On-Demand Report';
+}
+
+/**
+ * Render a report as a complete email
+ *
+ * The HTML uses a 600px table layout with inline styles (plus one media query for narrow
+ * screens), which is what Gmail and Outlook render reliably. Reports whose fragment cannot be
+ * parsed are embedded as-is inside the same layout. The plain-text alternative is built from
+ * text_version
+ *
+ * @param report - Report to render
+ * @param links - Report, feedback, unsubscribe and tracking links for this recipient
+ */
+export function renderReportEmail(
+  report: Pick<ReportDto, 'html' | 'text_version' | 'generated_by' | 'created_at'>,
+  links: ReportEmailLinks
+): RenderedEmail {
+  const subject = reportEmailSubject(report);
+  const date = new Intl.DateTimeFormat('en-US', { dateStyle: 'long', timeZone: 'UTC' }).format(
+    new Date(report.created_at)
+  );
+
+  return {
+    subject,
+    html: renderHtml(report.html, subject, reportHeading(report), date, links),
+    text: renderText(report.text_version, date, links),
+  };
+}
+
+function renderHtml(
+  fragment: string,
+  subject: string,
+  heading: string,
+  date: string,
+  links: ReportEmailLinks
+): string {
+  const parsed = parseReportHtml(fragment);
+  const body = parsed ? renderSections(parsed) : row(fragment);
+  // Inbox preview text; never cut an escaped entity in half
+  const preheader = parsed ? parsed.summaryHtml.slice(0, 140).replace(/&[^;]*$/, '') : '';
+
+  const feedbackButtons = FEEDBACK_OPTIONS.map(
+    (option) =>
+      `<a href="${escapeHtml(links.feedbackUrls[option.rating])}" title="${option.label}" ` +
+      `style="display:inline-block;margin:0 6px;padding:8px 12px;font-size:28px;line-height:32px;text-decoration:none;border:1px solid #e4e7eb;border-radius:8px;">${option.emoji}</a>`
+  ).join('');
+
+  const pixel = links.pixelUrl
+    ? `<img src="${escapeHtml(links.pixelUrl)}" width="1" height="1" alt="" style="display:block;border:0;width:1px;height:1px;">`
+    : '';
+
+  return (
+    '<!DOCTYPE html>' +
+    '<html lang="en"><head><meta charset="utf-8">' +
+    '<meta name="viewport" content="width=device-width, initial-scale=1">' +
+    '<meta name="x-apple-disable-message-reformatting">' +
+    `<title>${escapeHtml(subject)}</title>` +
+    '<style>@media only screen and (max-width:620px){.container{width:100% !important;}.content{padding-left:20px !important;padding-right:20px !important;}}</style>' +
+    '</head>' +
+    '<body style="margin:0;padding:0;background-color:#f4f5f7;">' +
+    `<div style="display:none;max-height:0;overflow:hidden;">${preheader}</div>` +
+    '<table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" style="background-color:#f4f5f7;">' +
+    '<tr><td align="center" style="padding:24px 12px;">' +
+    '<table role="presentation" class="container" width="600" cellpadding="0" cellspacing="0" border="0" style="width:600px;max-width:600px;background-color:#ffffff;border-radius:8px;">' +
+    // Header
+    `<tr><td class="content" style="padding:28px 40px 8px 40px;${FONT}">` +
+    `<p style="margin:0;font-size:14px;font-weight:bold;color:${COLOR_ACCENT};letter-spacing:0.5px;">LifeSync</p>` +
+    `<h1 style="margin:8px 0 0 0;font-size:24px;line-height:32px;color:${COLOR_TEXT};">${heading}</h1>` +
+    `<p style="margin:4px 0 0 0;font-size:14px;color:${COLOR_MUTED};">${escapeHtml(date)}</p>` +
+    '</td></tr>' +
+    body +
+    // Call to action
+    `<tr><td class="content" align="center" style="padding:24px 40px 8px 40px;${FONT}">` +
+    `<a href="${escapeHtml(links.reportUrl)}" style="display:inline-block;padding:12px 28px;background-color:${COLOR_ACCENT};color:#ffffff;font-size:16px;font-weight:bold;text-decoration:none;border-radius:6px;">Open in LifeSync</a>` +
+    '</td></tr>' +
+    // Feedback
+    `<tr><td class="content" align="center" style="padding:24px 40px 32px 40px;${FONT}">` +
+    `<p style="margin:0 0 12px 0;font-size:15px;color:${COLOR_TEXT};">How helpful was this report?</p>` +
+    feedbackButtons +
+    '</td></tr>' +
+    '</table>' +
+    // Footer
+    '<table role="presentation" class="container" width="600" cellpadding="0" cellspacing="0" border="0" style="width:600px;max-width:600px;">' +
+    `<tr><td class="content" align="center" style="padding:16px 40px;${FONT}font-size:12px;line-height:18px;color:${COLOR_MUTED};">` +
+    'You receive this email because email delivery is enabled in your LifeSync preferences.<br>' +
+    `<a href="${escapeHtml(links.unsubscribeUrl)}" style="color:${COLOR_MUTED};text-decoration:underline;">Unsubscribe from LifeSync emails</a>` +
+    '</td></tr></table>' +
+    '</td></tr></table>' +
+    pixel +
+    '</body></html>'
+  );
+}
+
+function renderSections(parsed: ParsedReport): string {
+  const summary = row(
+    `<p style="margin:0;font-size:16px;line-height:24px;color:${COLOR_TEXT};">${parsed.summaryHtml}</p>`
+  );
+
+  const categories = parsed.categories
+    .map((category) =>
+      row(
+        `<h2 style="margin:0 0 6px 0;font-size:18px;line-height:24px;color:${COLOR_TEXT};border-left:4px solid ${COLOR_ACCENT};padding-left:10px;">${category.nameHtml}</h2>` +
+          `<p style="margin:0;font-size:15px;line-height:22px;color:${COLOR_TEXT};">${category.summaryHtml}</p>`
+      )
+    )
+    .join('');
+
+  const recommendations = parsed.recommendationsHtml.length
+    ? row(
+        `<div style="background-color:#eef2ff;border-radius:6px;padding:16px 20px;">` +
+          `<h2 style="margin:0 0 8px 0;font-size:18px;line-height:24px;color:${COLOR_TEXT};">Recommendations</h2>` +
+          `<ul style="margin:0;padding-left:20px;font-size:15px;line-height:22px;color:${COLOR_TEXT};">` +
+          parsed.recommendationsHtml
+            .map((item) => `<li style="margin:0 0 6px 0;">${item}</li>`)
+            .join('') +
+          '</ul></div>'
+      )
+    : '';
+
+  return summary + categories + recommendations;
+}
+
+function row(content: string): string {
+  return `<tr><td class="content" style="padding:16px 40px 0 40px;${FONT}">${content}</td></tr>`;
+}
+
+function renderText(textVersion: string | null, date: string, links: ReportEmailLinks): string {
+  const lines = [
+    `LifeSync - ${date}`,
+    '',
+    textVersion?.trim() || 'Your report is ready.',
+    '',
+    `Open in LifeSync: ${links.reportUrl}`,
+    '',
+    'How helpful was this report?',
+    ...FEEDBACK_OPTIONS.map(
+      (option) => `${option.emoji} ${option.label}: ${links.feedbackUrls[option.rating]}`
+    ),
+    '',
+    '--',
+    'You receive this email because email delivery is enabled in your LifeSync preferences.',
+    `Unsubscribe: ${links.unsubscribeUrl}`,
+  ];
+
+  return lines.join('\n') + '\n';
+}
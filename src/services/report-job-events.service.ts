@@ -0,0 +1,118 @@
+import type { UUID, ReportGenerationEventDto } from '../types.js';
+
+/**
+ * Progress event with a per-job sequence number (used as the SSE event id)
+ */
+export type ReportJobEvent = {
+  id: number;
+  payload: ReportGenerationEventDto;
+};
+
+type ReportJobEventListener = (event: ReportJobEvent) => void;
+
+type JobChannel = {
+  seq: number;
+  history: ReportJobEvent[];
+  listeners: Set<ReportJobEventListener>;
+  closed: boolean;
+};
+
+/**
+ * How long the history of a finished job stays available for late subscribers
+ */
+const CLOSED_CHANNEL_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Upper bound on buffered events per job (token events dominate); job_status events are
+ * always kept so late subscribers still learn the outcome
+ */
+const MAX_HISTORY = 5000;
+
+/**
+ * In-process publish/subscribe of report job progress
+ *
+ * Events are buffered per job so a subscriber that connects late (or reconnects with
+ * Last-Event-ID) receives everything it missed. Only jobs processed by this process are
+ * visible, which matches the in-process ReportJobRunner
+ */
+export class ReportJobEventBus {
+  private channels = new Map<UUID, JobChannel>();
+
+  /**
+   * Publish an event to all current subscribers of a job
+   */
+  publish(jobId: UUID, payload: ReportGenerationEventDto): void {
+    const channel = this.getChannel(jobId);
+    if (channel.closed) {
+      return;
+    }
+
+    const event = { id: ++channel.seq, payload };
+    if (channel.history.length < MAX_HISTORY || payload.type === 'job_status') {
+      channel.history.push(event);
+    }
+    channel.listeners.forEach((listener) => listener(event));
+  }
+
+  /**
+   * Mark a job as finished: no further events, history kept for CLOSED_CHANNEL_TTL_MS
+   */
+  close(jobId: UUID): void {
+    const channel = this.getChannel(jobId);
+    channel.closed = true;
+    channel.listeners.clear();
+
+    setTimeout(() => this.channels.delete(jobId), CLOSED_CHANNEL_TTL_MS).unref();
+  }
+
+  /**
+   * Whether this process has published anything for the job
+   */
+  hasHistory(jobId: UUID): boolean {
+    return (this.channels.get(jobId)?.history.length ?? 0) > 0;
+  }
+
+  /**
+   * Subscribe to a job, replaying buffered events with id > afterId first
+   *
+   * @returns closed = the job already finished (replay is complete, no more events follow);
+   *          unsubscribe = stop receiving events
+   */
+  subscribe(
+    jobId: UUID,
+    listener: ReportJobEventListener,
+    afterId = 0
+  ): { closed: boolean; unsubscribe: () => void } {
+    const channel = this.getChannel(jobId);
+
+    channel.history.filter((event) => event.id > afterId).forEach(listener);
+
+    if (channel.closed) {
+      return { closed: true, unsubscribe: () => undefined };
+    }
+
+    channel.listeners.add(listener);
+
+    return {
+      closed: false,
+      unsubscribe: () => {
+        channel.listeners.delete(listener);
+        // Drop channels created only by a subscriber for a job that never published
+        if (channel.listeners.size === 0 && channel.history.length === 0) {
+          this.channels.delete(jobId);
+        }
+      },
+    };
+  }
+
+  private getChannel(jobId: UUID): JobChannel {
+    let channel = this.channels.get(jobId);
+    if (!channel) {
+      channel = { seq: 0, history: [], listeners: new Set(), closed: false };
+      this.channels.set(jobId, channel);
+    }
+    return channel;
+  }
+}
+
+export const reportJobEvents = new ReportJobEventBus();
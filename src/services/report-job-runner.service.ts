@@ -0,0 +1,247 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Json } from '../db/database.types.js';
+import type { UUID, ReportGenerationEventDto } from '../types.js';
+import { supabaseClient } from '../db/supabase.client.js';
+import {
+  ReportsService,
+  WeeklyLimitExceededError,
+  InvalidCategoriesError,
+} from './reports.service.js';
+import { LlmProviderError } from './llm.service.js';
+import { reportJobEvents, type ReportJobEventBus } from './report-job-events.service.js';
+
+/**
+ * Failure recorded on a job, mirroring the ErrorResponseDto the synchronous endpoint returned
+ */
+type JobFailure = {
+  code: string;
+  message: string;
+  details: Json | null;
+};
+
+/**
+ * ReportJobRunner processes queued report jobs in the API process
+ *
+ * Jobs are claimed with a conditional status update (queued -> running), so a job is
+ * processed once even if several instances pick it up. At most `concurrency` jobs
+ * generate at the same time; the rest wait in memory (and in the table, for restarts).
+ * Jobs still running long after they were claimed belong to an instance that stopped and
+ * are failed as stale
+ *
+ * Uses the service role client: jobs outlive the request JWT that created them
+ */
+export class ReportJobRunner {
+  private queue: UUID[] = [];
+  private active = 0;
+
+  /**
+   * @param adminClient - Admin Supabase client (bypasses RLS)
+   * @param concurrency - Maximum number of jobs generating at once
+   * @param events - Bus receiving job progress (streamed to clients over SSE)
+   * @param staleAfterMs - How long after being claimed a running job is considered abandoned
+   */
+  constructor(
+    private adminClient: SupabaseClient<Database> = supabaseClient,
+    private concurrency: number = Number(process.env.REPORT_JOB_CONCURRENCY) || 2,
+    private events: ReportJobEventBus = reportJobEvents,
+    private staleAfterMs: number = (Number(process.env.REPORT_JOB_STALE_MINUTES) || 15) * 60000
+  ) {}
+
+  /**
+   * Schedule a queued job for processing
+   */
+  enqueue(jobId: UUID): void {
+    this.queue.push(jobId);
+    this.drain();
+  }
+
+  /**
+   * Pick up jobs left over by a previous process
+   *
+   * Queued jobs are enqueued again; stale running jobs are failed (see failStaleJobs). Jobs
+   * other instances are still running are left alone
+   *
+   * @returns Number of re-enqueued jobs
+   */
+  async resumePending(): Promise<number> {
+    await this.failStaleJobs();
+
+    const { data, error } = await this.adminClient
+      .from('report_jobs')
+      .select('id')
+      .eq('status', 'queued')
+      .order('created_at');
+
+    if (error) {
+      console.error('ReportJobRunner.resumePending error:', error);
+      throw new Error(`Failed to load queued report jobs: ${error.message}`);
+    }
+
+    (data || []).forEach((job) => this.enqueue(job.id));
+    return data?.length ?? 0;
+  }
+
+  /**
+   * Fail running jobs claimed longer than staleAfterMs ago
+   *
+   * Their instance stopped (or lost the job) while generating; they are failed rather than
+   * retried, since their report may already have been inserted
+   *
+   * @returns Number of failed jobs
+   */
+  async failStaleJobs(now: Date = new Date()): Promise<number> {
+    const { data, error } = await this.adminClient
+      .from('report_jobs')
+      .update({
+        status: 'failed',
+        error_code: 'JOB_INTERRUPTED',
+        error_message: 'Report generation was interrupted, please try again',
+        finished_at: now.toISOString(),
+      })
+      .eq('status', 'running')
+      .lt('started_at', new Date(now.getTime() - this.staleAfterMs).toISOString())
+      .select('id');
+
+    if (error) {
+      console.error('ReportJobRunner.failStaleJobs error:', error);
+      throw new Error(`Failed to fail interrupted report jobs: ${error.message}`);
+    }
+
+    if (data?.length) {
+      console.warn(`[WARN] Failed ${data.length} stale report jobs`);
+    }
+    return data?.length ?? 0;
+  }
+
+  private drain(): void {
+    while (this.active < this.concurrency && this.queue.length > 0) {
+      const jobId = this.queue.shift() as UUID;
+      this.active++;
+      this.process(jobId)
+        .catch((err) => console.error(`[ERROR] Report job ${jobId} failed to process:`, err))
+        .finally(() => {
+          this.active--;
+          this.drain();
+        });
+    }
+  }
+
+  /**
+   * Claim a job, generate its report and record the outcome
+   */
+  private async process(jobId: UUID): Promise<void> {
+    const { data: job, error: claimError } = await this.adminClient
+      .from('report_jobs')
+      .update({ status: 'running', started_at: new Date().toISOString() })
+      .eq('id', jobId)
+      .eq('status', 'queued')
+      .select('*')
+      .maybeSingle();
+
+    if (claimError) {
+      throw new Error(`Failed to claim report job: ${claimError.message}`);
+    }
+
+    if (!job) {
+      return; // Already claimed by another worker
+    }
+
+    this.events.publish(jobId, {
+      type: 'job_status',
+      status: 'running',
+      report_id: null,
+      error: null,
+    });
+
+    let update: Database['public']['Tables']['report_jobs']['Update'];
+    let finalEvent: ReportGenerationEventDto;
+
+    try {
+      const reportsService = new ReportsService(this.adminClient);
+      const report = await reportsService.generateReport(
+        job.user_id,
+        { include_categories: job.include_categories },
+        job.idempotency_key ?? undefined,
+        (event) => this.events.publish(jobId, event)
+      );
+
+      update = { status: 'succeeded', report_id: report.id };
+      finalEvent = { type: 'job_status', status: 'succeeded', report_id: report.id, error: null };
+      console.log(`[INFO] Report job ${jobId} succeeded with report ${report.id}`);
+    } catch (err) {
+      const failure = this.toFailure(err);
+      update = {
+        status: 'failed',
+        error_code: failure.code,
+        error_message: failure.message,
+        error_details: failure.details,
+      };
+      finalEvent = {
+        type: 'job_status',
+        status: 'failed',
+        report_id: null,
+        error: {
+          code: failure.code,
+          message: failure.message,
+          ...(failure.details ? { details: failure.details as Record<string, unknown> } : {}),
+        },
+      };
+      console.warn(`[WARN] Report job ${jobId} failed: ${failure.code}`);
+    }
+
+    try {
+      const { error: finishError } = await this.adminClient
+        .from('report_jobs')
+        .update({ ...update, finished_at: new Date().toISOString() })
+        .eq('id', jobId);
+
+      if (finishError) {
+        throw new Error(`Failed to record report job outcome: ${finishError.message}`);
+      }
+    } finally {
+      // Subscribers learn the outcome even if it could not be persisted
+      this.events.publish(jobId, finalEvent);
+      this.events.close(jobId);
+    }
+  }
+
+  /**
+   * Map generation errors to the error codes of POST /api/reports/generate
+   */
+  private toFailure(err: unknown): JobFailure {
+    if (err instanceof WeeklyLimitExceededError) {
+      return {
+        code: 'WEEKLY_LIMIT_REACHED',
+        message: 'Maximum 3 on-demand reports allowed per week',
+        details: {
+          limit: err.limit,
+          count_this_week: err.count,
+          week_start: err.weekStart,
+          week_end: err.weekEnd,
+        },
+      };
+    }
+
+    if (err instanceof InvalidCategoriesError) {
+      return {
+        code: 'INVALID_CATEGORIES',
+        message: 'One or more categories are invalid or not authorized',
+        details: { invalid_ids: err.invalidIds },
+      };
+    }
+
+    if (err instanceof LlmProviderError) {
+      console.error(`ReportJobRunner LLM error (${err.provider}):`, err.message);
+      return {
+        code: 'LLM_UNAVAILABLE',
+        message: 'Report content could not be generated, please try again later',
+        details: null,
+      };
+    }
+
+    console.error('ReportJobRunner error:', err);
+    return { code: 'SERVER_ERROR', message: 'An unexpected error occurred', details: null };
+  }
+}
+
+export const reportJobRunner = new ReportJobRunner();
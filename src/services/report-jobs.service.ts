@@ -0,0 +1,141 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../db/database.types.js';
+import type { UUID, ReportJobDto, GenerateReportCommand } from '../types.js';
+import { ReportsService } from './reports.service.js';
+import { reportJobRunner, type ReportJobRunner } from './report-job-runner.service.js';
+
+/**
+ * Custom error for when a report job is not found or user doesn't own it
+ */
+export class ReportJobNotFoundError extends Error {
+  constructor(public jobId: UUID) {
+    super(`Report job ${jobId} not found`);
+    this.name = 'ReportJobNotFoundError';
+  }
+}
+
+/**
+ * ReportJobsService enqueues on-demand report generation and exposes job state
+ *
+ * This service uses user-scoped Supabase clients to enforce RLS (Row-Level Security);
+ * the generation itself is performed by the ReportJobRunner
+ */
+export class ReportJobsService {
+  /**
+   * Initialize service with Supabase client
+   * @param userClient - User-scoped Supabase client (for RLS enforcement via JWT)
+   * @param runner - Runner processing queued jobs
+   */
+  constructor(
+    private userClient: SupabaseClient<Database>,
+    private runner: ReportJobRunner = reportJobRunner
+  ) {}
+
+  /**
+   * Enqueue an on-demand report generation job
+   *
+   * Categories and the weekly limit are validated before enqueuing so that invalid
+   * requests fail synchronously. With an Idempotency-Key, a retried request returns the
+   * job created by the first request unless that job failed
+   *
+   * @param userId - UUID of authenticated user
+   * @param command - GenerateReportCommand with include_categories
+   * @param idempotencyKey - Optional Idempotency-Key for deduplication
+   * @returns Queued (or existing) ReportJobDto
+   * @throws WeeklyLimitExceededError if limit reached
+   * @throws InvalidCategoriesError if categories invalid/unauthorized
+   * @throws Error for unexpected DB failures
+   */
+  async enqueue(
+    userId: UUID,
+    command: GenerateReportCommand,
+    idempotencyKey?: string
+  ): Promise<ReportJobDto> {
+    if (idempotencyKey) {
+      const existing = await this.findLiveJob(userId, idempotencyKey);
+      if (existing) {
+        console.log(`[INFO] Idempotency key ${idempotencyKey} found, returning job ${existing.id}`);
+        return existing;
+      }
+    }
+
+    const reportsService = new ReportsService(this.userClient);
+    await reportsService.validateGenerateRequest(userId, command, idempotencyKey);
+
+    const { data: job, error } = await this.userClient
+      .from('report_jobs')
+      .insert({
+        user_id: userId,
+        include_categories: command.include_categories,
+        idempotency_key: idempotencyKey ?? null,
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      // Concurrent request with the same Idempotency-Key created the job first
+      if (error.code === '23505' && idempotencyKey) {
+        const existing = await this.findLiveJob(userId, idempotencyKey);
+        if (existing) {
+          return existing;
+        }
+      }
+      console.error('ReportJobsService.enqueue error:', error);
+      throw new Error(`Failed to enqueue report job: ${error.message}`);
+    }
+
+    console.log(`[INFO] Report job ${job.id} queued for user ${userId}`);
+    this.runner.enqueue(job.id);
+
+    return job as ReportJobDto;
+  }
+
+  /**
+   * Retrieve a report job by ID for the authenticated user
+   *
+   * @param userId - UUID of the authenticated user
+   * @param jobId - UUID of the job
+   * @returns ReportJobDto
+   * @throws ReportJobNotFoundError if job doesn't exist or user doesn't own it
+   * @throws Error for unexpected database errors
+   */
+  async getJob(userId: UUID, jobId: UUID): Promise<ReportJobDto> {
+    const { data: job, error } = await this.userClient
+      .from('report_jobs')
+      .select('*')
+      .eq('id', jobId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('ReportJobsService.getJob error:', error);
+      throw new Error(`Failed to retrieve report job: ${error.message}`);
+    }
+
+    if (!job) {
+      throw new ReportJobNotFoundError(jobId);
+    }
+
+    return job as ReportJobDto;
+  }
+
+  /**
+   * Find the user's non-failed job for an Idempotency-Key
+   */
+  private async findLiveJob(userId: UUID, idempotencyKey: string): Promise<ReportJobDto | null> {
+    const { data, error } = await this.userClient
+      .from('report_jobs')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('idempotency_key', idempotencyKey)
+      .neq('status', 'failed')
+      .maybeSingle();
+
+    if (error) {
+      console.error('ReportJobsService.findLiveJob error:', error);
+      throw new Error(`Failed to check idempotency key: ${error.message}`);
+    }
+
+    return data as ReportJobDto | null;
+  }
+}
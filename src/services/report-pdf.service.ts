@@ -0,0 +1,194 @@
+import { createRequire } from 'node:module';
+import PDFDocument from 'pdfkit';
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../db/database.types.js';
+import type { UUID, ReportDto } from '../types.js';
+import { ReportNotFoundError } from './reports.service.js';
+import { parseReportHtml, reportHeading } from './report-email-renderer.service.js';
+import { getReportStorage, type ReportStorage } from './report-storage.service.js';
+
+/**
+ * PDF of a report, ready to download
+ */
+export type ReportPdf = {
+  fileName: string;
+  data: Buffer;
+};
+
+const COLOR_TEXT = '#1f2933';
+const COLOR_MUTED = '#616e7c';
+const COLOR_ACCENT = '#4f46e5';
+
+/**
+ * Embedded DejaVu Sans: the standard PDF fonts only cover Latin-1 (WinAnsi), which would
+ * garble names and summaries with e.g. Polish diacritics, Cyrillic or Greek. Emoji and
+ * other characters outside DejaVu Sans still render as empty boxes
+ */
+const require = createRequire(import.meta.url);
+const FONT_REGULAR = require.resolve('dejavu-fonts-ttf/ttf/DejaVuSans.ttf');
+const FONT_BOLD = require.resolve('dejavu-fonts-ttf/ttf/DejaVuSans-Bold.ttf');
+
+/**
+ * Decode the HTML entities produced by escapeHtml
+ */
+function unescapeHtml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Render a report as an A4 PDF
+ *
+ * Uses the sections of the stored HTML fragment (summary, categories, recommendations);
+ * reports whose fragment cannot be parsed fall back to text_version. Text is set in the
+ * embedded DejaVu Sans (subset into the file), so non-Latin-1 text renders
+ */
+export function renderReportPdf(
+  report: Pick<ReportDto, 'html' | 'text_version' | 'generated_by' | 'created_at'>
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const heading = reportHeading(report);
+    const doc = new PDFDocument({
+      size: 'A4',
+      margin: 56,
+      info: { Title: `LifeSync ${heading}`, Creator: 'LifeSync' },
+    });
+    doc.registerFont('Regular', FONT_REGULAR);
+    doc.registerFont('Bold', FONT_BOLD);
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const date = new Intl.DateTimeFormat('en-US', { dateStyle: 'long', timeZone: 'UTC' }).format(
+      new Date(report.created_at)
+    );
+
+    doc.font('Bold').fontSize(11).fillColor(COLOR_ACCENT).text('LifeSync');
+    doc.moveDown(0.3);
+    doc.font('Bold').fontSize(22).fillColor(COLOR_TEXT).text(heading);
+    doc.font('Regular').fontSize(11).fillColor(COLOR_MUTED).text(date);
+    doc.moveDown(1.2);
+
+    const parsed = parseReportHtml(report.html);
+
+    if (parsed) {
+      doc.font('Regular').fontSize(12).fillColor(COLOR_TEXT);
+      doc.text(unescapeHtml(parsed.summaryHtml), { lineGap: 3 });
+
+      for (const category of parsed.categories) {
+        doc.moveDown(1);
+        doc.font('Bold').fontSize(14).fillColor(COLOR_TEXT);
+        doc.text(unescapeHtml(category.nameHtml));
+        doc.moveDown(0.3);
+        doc.font('Regular').fontSize(12).text(unescapeHtml(category.summaryHtml), {
+          lineGap: 3,
+        });
+      }
+
+      if (parsed.recommendationsHtml.length) {
+        doc.moveDown(1);
+        doc.font('Bold').fontSize(14).fillColor(COLOR_TEXT).text('Recommendations');
+        doc.moveDown(0.3);
+        doc
+          .font('Regular')
+          .fontSize(12)
+          .list(parsed.recommendationsHtml.map(unescapeHtml), { bulletRadius: 2, lineGap: 3 });
+      }
+    } else {
+      doc
+        .font('Regular')
+        .fontSize(12)
+        .fillColor(COLOR_TEXT)
+        .text(report.text_version ?? '', { lineGap: 3 });
+    }
+
+    doc.end();
+  });
+}
+
+/**
+ * ReportPdfService renders report PDFs and keeps them in report storage
+ *
+ * PDFs are rendered once and referenced by reports.pdf_path (the storage key); a missing
+ * file is rendered again on the next download
+ */
+export class ReportPdfService {
+  /**
+   * @param client - User-scoped client (RLS) for downloads; service role client for generation
+   * @param storage - Storage backend for PDF files
+   */
+  constructor(
+    private client: SupabaseClient<Database>,
+    private storage: ReportStorage = getReportStorage()
+  ) {}
+
+  /**
+   * Render and store the PDF of a report unless it is already stored
+   *
+   * @param report - Report to render
+   * @returns Storage key (reports.pdf_path) and the PDF contents
+   * @throws Error if rendering, storing or recording pdf_path fails
+   */
+  async ensurePdf(report: ReportDto): Promise<{ key: string; data: Buffer }> {
+    if (report.pdf_path) {
+      const existing = await this.storage.get(report.pdf_path);
+      if (existing) {
+        return { key: report.pdf_path, data: existing };
+      }
+    }
+
+    const key = `${report.user_id}/${report.id}.pdf`;
+    const data = await renderReportPdf(report);
+    await this.storage.put(key, data);
+
+    if (report.pdf_path !== key) {
+      const { error } = await this.client
+        .from('reports')
+        .update({ pdf_path: key })
+        .eq('id', report.id);
+
+      if (error) {
+        throw new Error(`Failed to record report PDF: ${error.message}`);
+      }
+    }
+
+    return { key, data };
+  }
+
+  /**
+   * Retrieve the PDF of a report owned by the user, rendering it if needed
+   *
+   * @param userId - UUID of the authenticated user
+   * @param reportId - UUID of the report
+   * @returns ReportPdf
+   * @throws ReportNotFoundError if report doesn't exist, is deleted or user doesn't own it
+   */
+  async getReportPdf(userId: UUID, reportId: UUID): Promise<ReportPdf> {
+    const { data: report, error } = await this.client
+      .from('reports')
+      .select('*')
+      .eq('id', reportId)
+      .eq('user_id', userId)
+      .is('deleted_at', null)
+      .maybeSingle();
+
+    if (error) {
+      console.error('ReportPdfService.getReportPdf error:', error);
+      throw new Error(`Failed to retrieve report: ${error.message}`);
+    }
+
+    if (!report) {
+      throw new ReportNotFoundError(reportId);
+    }
+
+    const { data } = await this.ensurePdf(report);
+    const day = report.created_at.slice(0, 10);
+
+    return { fileName: `lifesync-report-${day}.pdf`, data };
+  }
+}
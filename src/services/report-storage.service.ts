@@ -0,0 +1,120 @@
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+/**
+ * Common interface implemented by all report artifact storage backends
+ *
+ * Keys are relative, slash-separated paths (e.g. `<user_id>/<report_id>.pdf`) and are what
+ * reports.pdf_path stores
+ */
+export interface ReportStorage {
+  readonly name: string;
+  put(key: string, data: Buffer): Promise<void>;
+  /** @returns file contents, or null if nothing is stored under the key */
+  get(key: string): Promise<Buffer | null>;
+  /** Removing a missing key succeeds */
+  remove(key: string): Promise<void>;
+}
+
+/**
+ * Custom error for storage keys that would escape the storage root
+ */
+export class InvalidStorageKeyError extends Error {
+  constructor(public readonly key: string) {
+    super(`Invalid storage key: ${key}`);
+    this.name = 'InvalidStorageKeyError';
+  }
+}
+
+/**
+ * Local filesystem storage (default)
+ */
+export class LocalReportStorage implements ReportStorage {
+  readonly name = 'local';
+
+  constructor(private readonly rootDir: string) {}
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const file = this.resolve(key);
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, data);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await readFile(this.resolve(key));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw err;
+    }
+  }
+
+  async remove(key: string): Promise<void> {
+    await rm(this.resolve(key), { force: true });
+  }
+
+  /**
+   * Map a key to a file under rootDir, refusing keys resolving outside of it
+   */
+  private resolve(key: string): string {
+    const resolved = path.resolve(this.rootDir, key);
+    if (!resolved.startsWith(this.rootDir + path.sep)) {
+      throw new InvalidStorageKeyError(key);
+    }
+    return resolved;
+  }
+}
+
+/**
+ * In-memory storage for tests: stored files are kept in `files`
+ */
+export class MemoryReportStorage implements ReportStorage {
+  readonly name = 'memory';
+  readonly files = new Map<string, Buffer>();
+
+  async put(key: string, data: Buffer): Promise<void> {
+    this.files.set(key, data);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    return this.files.get(key) ?? null;
+  }
+
+  async remove(key: string): Promise<void> {
+    this.files.delete(key);
+  }
+}
+
+/**
+ * Build the report storage selected by configuration
+ *
+ * Environment:
+ * - REPORT_STORAGE: 'local' | 'memory' (default: 'local')
+ * - REPORT_ARTIFACTS_DIR: root directory of local storage (default: ./storage/reports)
+ */
+export function createReportStorage(env: NodeJS.ProcessEnv = process.env): ReportStorage {
+  const storage = (env.REPORT_STORAGE || 'local').toLowerCase();
+
+  switch (storage) {
+    case 'local':
+      return new LocalReportStorage(path.resolve(env.REPORT_ARTIFACTS_DIR || './storage/reports'));
+    case 'memory':
+      return new MemoryReportStorage();
+    default:
+      throw new Error(`Unknown REPORT_STORAGE "${storage}" (expected 'local' or 'memory')`);
+  }
+}
+
+let defaultStorage: ReportStorage | null = null;
+
+/**
+ * Lazily created, process-wide storage used when services are not given one explicitly
+ */
+export function getReportStorage(): ReportStorage {
+  if (!defaultStorage) {
+    defaultStorage = createReportStorage();
+  }
+  return defaultStorage;
+}
@@ -1,7 +1,25 @@
 import { SupabaseClient } from '@supabase/supabase-js';
 import type { Database } from '../db/database.types.js';
-import type { UUID, ReportDto, ListReportsResponseDto } from '../types.js';
+import type {
+  UUID,
+  ReportDto,
+  NoteDto,
+  GeneratedBy,
+  ListReportsResponseDto,
+  ReportGenerationEventDto,
+} from '../types.js';
 import type { ListReportsQuery } from '../validation/reports.js';
+import {
+  getLlmProvider,
+  type LlmProvider,
+  type LlmTokenListener,
+  type ReportGenerationOutput,
+} from './llm.service.js';
+import { promptRegistry, type PromptRegistry } from './prompt-registry.service.js';
+import { REPORT_PROMPT_NAME } from '../config/system-prompt.js';
+import { ReportPdfService } from './report-pdf.service.js';
+import { getDashboardCache, type DashboardCache } from './dashboard-cache.service.js';
+import { domainEvents, type DomainEventBus } from './domain-events.service.js';
 
 /**
  * Custom error for when a report is not found
@@ -61,8 +79,19 @@ export class ReportsService {
   /**
    * Initialize service with Supabase client
    * @param userClient - User-scoped Supabase client (for RLS enforcement via JWT)
+   * @param llmProvider - LLM provider used for report content (defaults to the configured
+   *   provider, resolved when content is first generated so read-only use does not need it)
+   * @param prompts - Prompt registry resolving the prompt version per user
+   * @param dashboardCache - Dashboard cache invalidated when the user's reports change
+   * @param events - Bus receiving report domain events (recorded as analytics)
    */
-  constructor(private userClient: SupabaseClient<Database>) {}
+  constructor(
+    private userClient: SupabaseClient<Database>,
+    private llmProvider: LlmProvider | null = null,
+    private prompts: PromptRegistry = promptRegistry,
+    private dashboardCache: DashboardCache = getDashboardCache(),
+    private events: DomainEventBus = domainEvents
+  ) {}
 
   /**
    * Retrieve paginated list of reports for authenticated user with optional filtering
@@ -232,6 +261,9 @@ export class ReportsService {
       console.error('ReportsService.deleteReportById error updating report:', updateError);
       throw new Error(`Failed to delete report: ${updateError.message}`);
     }
+
+    await this.dashboardCache.invalidate(userId);
+    this.events.publish('report_deleted', userId, { report_id: reportId });
   }
 
   /**
@@ -240,6 +272,7 @@ export class ReportsService {
    * @param userId - UUID of authenticated user
    * @param command - GenerateReportCommand with include_categories
    * @param idempotencyKey - Optional Idempotency-Key for deduplication
+   * @param onProgress - Optional listener notified after each step (and for every LLM token)
    * @returns Generated ReportDto
    * @throws WeeklyLimitExceededError if limit reached
    * @throws InvalidCategoriesError if categories invalid/unauthorized
@@ -248,7 +281,8 @@ export class ReportsService {
   async generateReport(
     userId: UUID,
     command: { include_categories: UUID[] },
-    idempotencyKey?: string
+    idempotencyKey?: string,
+    onProgress?: (event: ReportGenerationEventDto) => void
   ): Promise<ReportDto> {
     // 1. Idempotency check (if key provided)
     if (idempotencyKey) {
@@ -262,32 +296,136 @@ export class ReportsService {
     // 2. Validate categories
     const validatedCategories = await this.validateCategories(userId, command.include_categories);
     console.log(`[INFO] Validated ${validatedCategories.length} categories for user ${userId}`);
+    onProgress?.({ type: 'categories_validated', categories: validatedCategories.length });
 
     // 3. Check weekly limit
-    const { weekStart, weekEnd } = await this.checkWeeklyLimit(userId);
+    const { weekStart, weekEnd, timezone } = await this.checkWeeklyLimit(userId);
     console.log(
       `[INFO] Weekly limit check passed for user ${userId} (week ${weekStart} to ${weekEnd})`
     );
+    onProgress?.({ type: 'weekly_limit_checked', week_start: weekStart, week_end: weekEnd });
 
     // 4. Fetch notes for report content
-    const notes = await this.fetchNotesForReport(userId, command.include_categories);
+    const notes = await this.fetchNotesForReport(userId, command.include_categories, {
+      weekStart,
+      weekEnd,
+    });
     console.log(`[INFO] Fetched ${notes.length} notes for report generation`);
-
-    // 5. Generate report via LLM
-    const generatedContent = await this.generateReportContent(notes, validatedCategories);
+    onProgress?.({ type: 'notes_fetched', count: notes.length });
+
+    // 5. Generate report via LLM (streaming tokens when someone is listening)
+    const generatedContent = await this.generateReportContent(
+      userId,
+      notes,
+      validatedCategories,
+      { timezone, weekStart, weekEnd },
+      onProgress && ((token) => onProgress({ type: 'llm_token', token }))
+    );
     console.log(`[INFO] Generated report content (${generatedContent.html.length} bytes HTML)`);
 
     // 6. Insert report into database
-    const report = await this.insertReport(userId, generatedContent, validatedCategories);
+    const report = await this.insertReport(
+      userId,
+      generatedContent,
+      validatedCategories,
+      'on_demand'
+    );
     console.log(`[INFO] Report inserted with ID ${report.id}`);
+    onProgress?.({ type: 'report_saved', report_id: report.id });
+
+    // 7. Export PDF (best-effort: downloads render it again if missing)
+    const exported = await this.exportPdf(report);
 
-    // 7. Store idempotency key (if provided)
+    // 8. Store idempotency key (if provided)
     if (idempotencyKey) {
       await this.storeIdempotencyKey(userId, idempotencyKey, report.id);
       console.log(`[INFO] Idempotency key stored for future requests`);
     }
 
-    return report;
+    return exported;
+  }
+
+  /**
+   * Run the synchronous checks of generateReport without generating anything
+   * Used before enqueuing a report job so invalid requests fail immediately
+   *
+   * Requests whose Idempotency-Key already produced a report pass without checks:
+   * the job will return the cached report
+   *
+   * @param userId - UUID of authenticated user
+   * @param command - GenerateReportCommand with include_categories
+   * @param idempotencyKey - Optional Idempotency-Key for deduplication
+   * @throws WeeklyLimitExceededError if limit reached
+   * @throws InvalidCategoriesError if categories invalid/unauthorized
+   * @throws Error for unexpected DB failures
+   */
+  async validateGenerateRequest(
+    userId: UUID,
+    command: { include_categories: UUID[] },
+    idempotencyKey?: string
+  ): Promise<void> {
+    if (idempotencyKey && (await this.checkIdempotencyKey(userId, idempotencyKey))) {
+      return;
+    }
+
+    await this.validateCategories(userId, command.include_categories);
+    await this.checkWeeklyLimit(userId);
+  }
+
+  /**
+   * Generate a scheduled weekly report for a user
+   *
+   * Used by the weekly runner with a service role client; the on-demand weekly limit
+   * does not apply (uniqueness per local week is checked by the caller and enforced by the DB)
+   *
+   * @param userId - UUID of the user the report is generated for
+   * @param categoryIds - Categories to include (the user's active categories)
+   * @param week - Local week being reported and the user's timezone
+   * @returns Generated ReportDto
+   * @throws InvalidCategoriesError if categories invalid/unauthorized
+   * @throws Error for unexpected DB/LLM failures
+   */
+  async generateScheduledReport(
+    userId: UUID,
+    categoryIds: UUID[],
+    week: { weekStart: string; weekEnd: string; timezone: string }
+  ): Promise<ReportDto> {
+    const validatedCategories = await this.validateCategories(userId, categoryIds);
+    const notes = await this.fetchNotesForReport(userId, categoryIds, week);
+    console.log(`[INFO] Fetched ${notes.length} notes for scheduled report of user ${userId}`);
+
+    const generatedContent = await this.generateReportContent(
+      userId,
+      notes,
+      validatedCategories,
+      week
+    );
+
+    const report = await this.insertReport(
+      userId,
+      generatedContent,
+      validatedCategories,
+      'scheduled'
+    );
+    console.log(`[INFO] Scheduled report inserted with ID ${report.id}`);
+
+    return this.exportPdf(report);
+  }
+
+  /**
+   * Render and store the PDF of a newly inserted report
+   * Failures are logged and the report is returned without pdf_path
+   */
+  private async exportPdf(report: ReportDto): Promise<ReportDto> {
+    try {
+      const { key } = await new ReportPdfService(this.userClient).ensurePdf(report);
+      return { ...report, pdf_path: key };
+    } catch (err) {
+      console.warn(
+        `[WARN] PDF export failed for report ${report.id}: ${err instanceof Error ? err.message : String(err)}`
+      );
+      return report;
+    }
   }
 
   /**
@@ -389,7 +527,9 @@ export class ReportsService {
    * Check if user has already created 3 on-demand reports this week
    * Uses user's timezone to determine week boundaries
    */
-  private async checkWeeklyLimit(userId: UUID): Promise<{ weekStart: string; weekEnd: string }> {
+  private async checkWeeklyLimit(
+    userId: UUID
+  ): Promise<{ weekStart: string; weekEnd: string; timezone: string }> {
     // 1. Get user's timezone from profile
     const { data: profile, error: profError } = await this.userClient
       .from('profiles')
@@ -426,10 +566,15 @@ export class ReportsService {
     const reportCount = count ?? reports?.length ?? 0;
     if (reportCount >= 3) {
       console.info(`[INFO] User ${userId} attempted to exceed weekly limit: ${reportCount}/3`);
+      this.events.publish('limit_exceeded', userId, {
+        limit: 'weekly_reports',
+        max: 3,
+        week_start: weekStart,
+      });
       throw new WeeklyLimitExceededError(reportCount, 3, weekStart, weekEnd);
     }
 
-    return { weekStart, weekEnd };
+    return { weekStart, weekEnd, timezone: profile.timezone };
   }
 
   /**
@@ -463,17 +608,21 @@ export class ReportsService {
   }
 
   /**
-   * Fetch notes from included categories for LLM input
+   * Fetch notes of the reported week from included categories for LLM input
    */
   private async fetchNotesForReport(
     userId: UUID,
-    categoryIds: UUID[]
-  ): Promise<Record<string, any>[]> {
+    categoryIds: UUID[],
+    week: { weekStart: string; weekEnd: string }
+  ): Promise<NoteDto[]> {
     const { data, error } = await this.userClient
       .from('notes')
       .select('*')
+      .eq('user_id', userId)
       .in('category_id', categoryIds)
       .is('deleted_at', null)
+      .gte('created_at', week.weekStart)
+      .lte('created_at', week.weekEnd)
       .order('created_at', { ascending: false })
       .limit(100); // Limit to prevent LLM overload
 
@@ -482,17 +631,19 @@ export class ReportsService {
       throw new Error(`Failed to fetch notes: ${error.message}`);
     }
 
-    return (data || []) as Record<string, any>[];
+    return (data || []) as NoteDto[];
   }
 
   /**
-   * Generate report HTML/text via LLM service
-   * Currently returns placeholder content
-   * TODO: Integrate with LLM service (OpenAI, OpenRouter, etc.)
+   * Generate report HTML/text via the configured LLM provider
+   * Records the model id reported by the provider and the prompt version resolved for the user
    */
   private async generateReportContent(
-    _notes: Record<string, any>[],
-    _categories: Array<{ id: UUID; name?: string; active?: boolean }>
+    userId: UUID,
+    notes: NoteDto[],
+    categories: Array<{ id: UUID; name?: string; active?: boolean }>,
+    context: { timezone: string; weekStart: string; weekEnd: string },
+    onToken?: LlmTokenListener
   ): Promise<{
     html: string;
     text_version: string | null;
@@ -500,19 +651,113 @@ export class ReportsService {
     llm_model: string;
     system_prompt_version: string;
   }> {
-    // Placeholder implementation
-    // TODO: Replace with actual LLM integration
-    console.log('[INFO] Generating report content via LLM service...');
+    const noteInputs = notes.map((n) => ({
+      id: n.id,
+      category_id: n.category_id,
+      title: n.title,
+      content: n.content,
+      created_at: n.created_at,
+    }));
+    const categoryInputs = categories.map((c) => ({ id: c.id, name: c.name }));
+
+    const categoryVariables = categoryInputs.map((c) => ({
+      category_id: c.id,
+      name: c.name ?? c.id,
+    }));
+    const noteVariables = noteInputs.map((n) => ({
+      category_id: n.category_id,
+      title: n.title,
+      content: n.content,
+      created_at: n.created_at,
+    }));
+
+    const template = this.prompts.resolveForUser(REPORT_PROMPT_NAME, userId);
+    const prompt = this.prompts.render(template, {
+      timezone: context.timezone,
+      week_start: context.weekStart,
+      week_end: context.weekEnd,
+      categories: JSON.stringify(categoryVariables),
+      notes: JSON.stringify(noteVariables),
+      input: JSON.stringify({
+        timezone: context.timezone,
+        week: { start: context.weekStart, end: context.weekEnd },
+        categories: categoryVariables,
+        notes: noteVariables,
+      }),
+    });
+
+    const llmProvider = this.llmProvider ?? getLlmProvider();
+
+    console.log(
+      `[INFO] Generating report content via LLM provider '${llmProvider.name}' (prompt ${prompt.name}@${prompt.version})...`
+    );
+
+    const output = await llmProvider.generateReport(
+      {
+        notes: noteInputs,
+        categories: categoryInputs,
+        timezone: context.timezone,
+        weekStart: context.weekStart,
+        weekEnd: context.weekEnd,
+        prompt,
+      },
+      onToken
+    );
 
     return {
-      html: '<html><body><h1>Weekly Report</h1><p>Report content generated.</p></body></html>',
-      text_version: 'Weekly Report\nReport content generated.',
-      pdf_path: null, // Would be populated by actual LLM service
-      llm_model: 'gpt-4',
-      system_prompt_version: 'v1.0',
+      html: this.renderReportHtml(output),
+      text_version: this.renderReportText(output),
+      pdf_path: null,
+      llm_model: output.model,
+      system_prompt_version: prompt.version,
     };
   }
 
+  /**
+   * Render structured LLM output as an HTML fragment
+   * All model-generated text is escaped before being embedded
+   */
+  private renderReportHtml(output: ReportGenerationOutput): string {
+    const sections = output.categories
+      .map(
+        (c) =>
+          `<section class="report-category" data-category-id="${escapeHtml(c.category_id)}">` +
+          `<h2>${escapeHtml(c.name)}</h2><p>${escapeHtml(c.summary)}</p></section>`
+      )
+      .join('');
+
+    const recommendations = output.recommendations.length
+      ? '<section class="report-recommendations"><h2>Recommendations</h2><ul>' +
+        output.recommendations.map((r) => `<li>${escapeHtml(r)}</li>`).join('') +
+        '</ul></section>'
+      : '';
+
+    return (
+      '<article class="report"><h1>Weekly Report</h1>' +
+      `<p class="report-summary">${escapeHtml(output.summary)}</p>` +
+      sections +
+      recommendations +
+      '</article>'
+    );
+  }
+
+  /**
+   * Render structured LLM output as plain text (used for text_version)
+   */
+  private renderReportText(output: ReportGenerationOutput): string {
+    const lines = ['Weekly Report', '', output.summary];
+
+    for (const category of output.categories) {
+      lines.push('', category.name, category.summary);
+    }
+
+    if (output.recommendations.length) {
+      lines.push('', 'Recommendations', ...output.recommendations.map((r) => `- ${r}`));
+    }
+
+    return lines.join('\n');
+  }
+
   /**
    * Insert report into database and trigger auto-delivery creation
    */
@@ -525,13 +770,14 @@ export class ReportsService {
       llm_model: string;
       system_prompt_version: string;
     },
-    categories: Array<{ id: UUID; name?: string; active?: boolean }>
+    categories: Array<{ id: UUID; name?: string; active?: boolean }>,
+    generatedBy: GeneratedBy
   ): Promise<ReportDto> {
     const { data: report, error } = await this.userClient
       .from('reports')
       .insert({
         user_id: userId,
-        generated_by: 'on_demand',
+        generated_by: generatedBy,
         html: content.html,
         text_version: content.text_version,
         pdf_path: content.pdf_path,
@@ -551,6 +797,15 @@ export class ReportsService {
       throw new Error('Failed to insert report: No data returned');
     }
 
+    await this.dashboardCache.invalidate(userId);
+    this.events.publish('report_generated', userId, {
+      report_id: report.id,
+      generated_by: report.generated_by,
+      category_ids: categories.map((category) => category.id),
+      llm_model: report.llm_model,
+      system_prompt_version: report.system_prompt_version,
+    });
+
     return report as ReportDto;
   }
 
@@ -584,3 +839,15 @@ export class ReportsService {
     }
   }
 }
+
+/**
+ * Escape text for safe inclusion in HTML content and attribute values
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,389 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Json } from '../db/database.types.js';
+import type {
+  UUID,
+  RetentionTableResultDto,
+  RetentionRunResultDto,
+  ListRetentionRunsResponseDto,
+} from '../types.js';
+import type { ListRetentionRunsQuery } from '../validation/cron.js';
+import { supabaseClient } from '../db/supabase.client.js';
+import {
+  getReportStorage,
+  InvalidStorageKeyError,
+  type ReportStorage,
+} from './report-storage.service.js';
+
+/**
+ * Tables covered by the retention policy
+ */
+type RetentionTable =
+  | 'report_deliveries'
+  | 'report_feedback'
+  | 'reports'
+  | 'notes'
+  | 'analytics_events'
+  | 'analytics_event_quarantine'
+  | 'idempotency_keys';
+
+/**
+ * Retention policy for one table
+ * months = 0 deletes rows as soon as `column` lies in the past (expiry timestamps)
+ */
+type RetentionPolicy = {
+  table: RetentionTable;
+  column: 'created_at' | 'expires_at';
+  months: number;
+};
+
+export type RetentionOptions = {
+  months: number;
+  batchSize: number;
+};
+
+/**
+ * Custom error for when a cleanup is started while another one is still in progress
+ */
+export class RetentionRunInProgressError extends Error {
+  constructor() {
+    super('A retention cleanup is already in progress');
+    this.name = 'RetentionRunInProgressError';
+  }
+}
+
+let runInProgress = false;
+
+/**
+ * Build retention options from configuration
+ *
+ * Environment:
+ * - RETENTION_MONTHS: retention period for user data (default: 6, PRD US-017)
+ * - RETENTION_BATCH_SIZE: rows deleted per statement (default: 200)
+ */
+export function retentionOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): RetentionOptions {
+  return {
+    months: Number(env.RETENTION_MONTHS) || 6,
+    batchSize: Number(env.RETENTION_BATCH_SIZE) || 200,
+  };
+}
+
+/**
+ * RetentionService hard-deletes user data older than the retention period
+ *
+ * Children are purged before their parents (deliveries and feedback before reports), rows are
+ * deleted in small id batches to keep locks short, and PDF artifacts referenced by
+ * reports.pdf_path are removed together with their report. Every run, including dry runs,
+ * is recorded in retention_runs
+ *
+ * Uses the service role client: retention operates across all users
+ */
+export class RetentionService {
+  private policies: RetentionPolicy[];
+
+  /**
+   * Initialize service with Supabase client
+   * @param adminClient - Admin Supabase client (bypasses RLS; cleanup is cross-user)
+   * @param options - Retention period and batch size
+   * @param storage - Storage holding report PDFs (reports.pdf_path keys)
+   */
+  constructor(
+    private adminClient: SupabaseClient<Database> = supabaseClient,
+    private options: RetentionOptions = retentionOptionsFromEnv(),
+    private storage: ReportStorage = getReportStorage()
+  ) {
+    this.policies = [
+      { table: 'report_deliveries', column: 'created_at', months: options.months },
+      { table: 'report_feedback', column: 'created_at', months: options.months },
+      { table: 'reports', column: 'created_at', months: options.months },
+      { table: 'notes', column: 'created_at', months: options.months },
+      { table: 'analytics_events', column: 'created_at', months: options.months },
+      { table: 'analytics_event_quarantine', column: 'created_at', months: options.months },
+      { table: 'idempotency_keys', column: 'expires_at', months: 0 },
+    ];
+  }
+
+  /**
+   * Run the retention cleanup for every policy
+   *
+   * In dry-run mode nothing is deleted: each table result reports how many rows (and PDF
+   * artifacts) currently fall outside the retention period
+   *
+   * @param dryRun - Only count matching rows
+   * @param now - Instant the cutoffs are computed from (default: current time)
+   * @returns RetentionRunResultDto with per-table counts
+   * @throws RetentionRunInProgressError if another cleanup is active in this process
+   * @throws Error if the run log cannot be written or a delete fails
+   */
+  async runCleanup(dryRun = false, now: Date = new Date()): Promise<RetentionRunResultDto> {
+    if (runInProgress) {
+      throw new RetentionRunInProgressError();
+    }
+    runInProgress = true;
+
+    try {
+      const startedAt = new Date().toISOString();
+      const runId = await this.startRun(startedAt, dryRun);
+      const results = new Map<RetentionTable, RetentionTableResultDto>();
+
+      for (const policy of this.policies) {
+        results.set(policy.table, {
+          table: policy.table,
+          column: policy.column,
+          cutoff: this.getCutoff(now, policy.months),
+          rows: 0,
+          artifacts: 0,
+          artifact_failures: 0,
+        });
+      }
+
+      try {
+        for (const policy of this.policies) {
+          if (dryRun) {
+            await this.countPolicy(policy, results);
+          } else {
+            await this.purgePolicy(policy, results);
+          }
+        }
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        await this.finishRun(runId, 'failed', [...results.values()], message);
+        throw err;
+      }
+
+      const tables = [...results.values()];
+      const finishedAt = await this.finishRun(runId, 'succeeded', tables, null);
+
+      console.log(
+        `[INFO] Retention ${dryRun ? 'dry run' : 'cleanup'} ${runId}: ` +
+          tables.map((t) => `${t.table}=${t.rows}`).join(', ')
+      );
+
+      return {
+        run_id: runId,
+        dry_run: dryRun,
+        started_at: startedAt,
+        finished_at: finishedAt,
+        tables,
+      };
+    } finally {
+      runInProgress = false;
+    }
+  }
+
+  /**
+   * List recorded retention runs, newest first
+   *
+   * @param query - Pagination (limit, offset)
+   * @returns Paginated retention run log
+   * @throws Error if database query fails
+   */
+  async listRuns(query: ListRetentionRunsQuery): Promise<ListRetentionRunsResponseDto> {
+    const { limit = 20, offset = 0 } = query;
+
+    const { data, error, count } = await this.adminClient
+      .from('retention_runs')
+      .select('*', { count: 'exact' })
+      .order('started_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      console.error('RetentionService.listRuns error:', error);
+      throw new Error(`Failed to retrieve retention runs: ${error.message}`);
+    }
+
+    return { items: data || [], total: count ?? 0, limit, offset };
+  }
+
+  /**
+   * Dry run: count rows (and report artifacts) outside the retention period
+   */
+  private async countPolicy(
+    policy: RetentionPolicy,
+    results: Map<RetentionTable, RetentionTableResultDto>
+  ): Promise<void> {
+    const result = results.get(policy.table)!;
+
+    const { count, error } = await this.db
+      .from(policy.table)
+      .select('*', { count: 'exact', head: true })
+      .lt(policy.column, result.cutoff);
+
+    if (error) {
+      throw new Error(`Failed to count ${policy.table}: ${error.message}`);
+    }
+    result.rows = count ?? 0;
+
+    if (policy.table === 'reports') {
+      const { count: artifacts, error: artifactsError } = await this.adminClient
+        .from('reports')
+        .select('*', { count: 'exact', head: true })
+        .lt('created_at', result.cutoff)
+        .not('pdf_path', 'is', null);
+
+      if (artifactsError) {
+        throw new Error(`Failed to count report artifacts: ${artifactsError.message}`);
+      }
+      result.artifacts = artifacts ?? 0;
+    }
+  }
+
+  /**
+   * Delete rows outside the retention period in batches of options.batchSize
+   */
+  private async purgePolicy(
+    policy: RetentionPolicy,
+    results: Map<RetentionTable, RetentionTableResultDto>
+  ): Promise<void> {
+    const result = results.get(policy.table)!;
+    const columns = policy.table === 'reports' ? 'id, pdf_path' : 'id';
+
+    for (;;) {
+      const { data, error } = await this.db
+        .from(policy.table)
+        .select(columns)
+        .lt(policy.column, result.cutoff)
+        .order(policy.column)
+        .limit(this.options.batchSize);
+
+      if (error) {
+        throw new Error(`Failed to select expired ${policy.table}: ${error.message}`);
+      }
+
+      const rows = (data || []) as unknown as { id: UUID | number; pdf_path?: string | null }[];
+      if (rows.length === 0) {
+        return;
+      }
+      const ids = rows.map((row) => row.id);
+
+      // Dependents of an expiring report can be younger than the report itself
+      if (policy.table === 'reports') {
+        for (const dependent of ['report_deliveries', 'report_feedback'] as const) {
+          results.get(dependent)!.rows += await this.deleteByIds(dependent, 'report_id', ids);
+        }
+      }
+
+      result.rows += await this.deleteByIds(policy.table, 'id', ids);
+
+      // Files are removed only once their rows are gone, so a failed delete never
+      // leaves a report pointing at a missing PDF
+      for (const row of rows) {
+        if (!row.pdf_path) {
+          continue;
+        }
+        if (await this.removeArtifact(row.pdf_path)) {
+          result.artifacts++;
+        } else {
+          result.artifact_failures++;
+        }
+      }
+
+      if (rows.length < this.options.batchSize) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Delete rows of a table whose `column` is in the given id list
+   * @returns Number of deleted rows
+   */
+  private async deleteByIds(
+    table: RetentionTable,
+    column: 'id' | 'report_id',
+    ids: (UUID | number)[]
+  ): Promise<number> {
+    const { count, error } = await this.db.from(table).delete({ count: 'exact' }).in(column, ids);
+
+    if (error) {
+      console.error(`RetentionService.deleteByIds(${table}) error:`, error);
+      throw new Error(`Failed to delete ${table}: ${error.message}`);
+    }
+
+    return count ?? 0;
+  }
+
+  /**
+   * Remove a report artifact from report storage
+   * Keys resolving outside the storage root are refused
+   *
+   * @returns true if the file was removed (or was already gone)
+   */
+  private async removeArtifact(pdfPath: string): Promise<boolean> {
+    try {
+      await this.storage.remove(pdfPath);
+      return true;
+    } catch (err) {
+      if (err instanceof InvalidStorageKeyError) {
+        console.warn(`[WARN] Retention refused to remove artifact outside storage: ${pdfPath}`);
+      } else {
+        console.warn(`[WARN] Retention failed to remove artifact ${pdfPath}: ${err}`);
+      }
+      return false;
+    }
+  }
+
+  /**
+   * Insert the run log entry
+   * @returns Run id
+   */
+  private async startRun(startedAt: string, dryRun: boolean): Promise<UUID> {
+    const { data, error } = await this.adminClient
+      .from('retention_runs')
+      .insert({ started_at: startedAt, dry_run: dryRun, status: 'running' })
+      .select('id')
+      .single();
+
+    if (error || !data) {
+      console.error('RetentionService.startRun error:', error);
+      throw new Error(`Failed to record retention run: ${error?.message}`);
+    }
+
+    return data.id;
+  }
+
+  /**
+   * Complete the run log entry with its outcome
+   * @returns finished_at timestamp
+   */
+  private async finishRun(
+    runId: UUID,
+    status: 'succeeded' | 'failed',
+    tables: RetentionTableResultDto[],
+    errorMessage: string | null
+  ): Promise<string> {
+    const finishedAt = new Date().toISOString();
+
+    const { error } = await this.adminClient
+      .from('retention_runs')
+      .update({
+        status,
+        finished_at: finishedAt,
+        results: tables as unknown as Json,
+        error: errorMessage,
+      })
+      .eq('id', runId);
+
+    if (error) {
+      // The deletes already happened; keep the outcome in the logs at least
+      console.error(`[ERROR] Failed to finish retention run ${runId}: ${error.message}`);
+    }
+
+    return finishedAt;
+  }
+
+  /**
+   * Cutoff instant: `now` minus the given number of calendar months (UTC)
+   */
+  private getCutoff(now: Date, months: number): string {
+    const cutoff = new Date(now);
+    cutoff.setUTCMonth(cutoff.getUTCMonth() - months);
+    return cutoff.toISOString();
+  }
+
+  /**
+   * Untyped view of the admin client for table names chosen at runtime
+   */
+  private get db(): SupabaseClient {
+    return this.adminClient as unknown as SupabaseClient;
+  }
+}
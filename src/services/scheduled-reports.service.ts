@@ -0,0 +1,313 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../db/database.types.js';
+import type { UUID, DeliveryChannel, WeeklyReportRunResultDto } from '../types.js';
+import { supabaseClient } from '../db/supabase.client.js';
+import { ReportsService } from './reports.service.js';
+
+/**
+ * Page size used when scanning preferences (matches PostgREST max_rows)
+ */
+const SCAN_PAGE_SIZE = 1000;
+
+/**
+ * Custom error for when a weekly run is started while another one is still in progress
+ */
+export class WeeklyRunInProgressError extends Error {
+  constructor() {
+    super('A weekly report run is already in progress');
+    this.name = 'WeeklyRunInProgressError';
+  }
+}
+
+/**
+ * Preferences row joined with the owner's profile timezone
+ */
+type SchedulePreferences = {
+  user_id: UUID;
+  report_dow: number;
+  report_hour: number;
+  active_categories: UUID[];
+  preferred_delivery_channels: DeliveryChannel[];
+  email_unsubscribed_at: string | null;
+  timezone: string;
+};
+
+/**
+ * Local calendar position of an instant in a timezone
+ */
+type LocalTime = {
+  date: string; // YYYY-MM-DD
+  dow: number; // 0 = Sunday ... 6 = Saturday
+  hour: number; // 0-23
+};
+
+let runInProgress = false;
+
+/**
+ * ScheduledReportsService generates scheduled weekly reports for all due users
+ *
+ * A user is due when the current local day-of-week and hour (in profiles.timezone) match
+ * preferences.report_dow / report_hour. At most one scheduled report is generated per
+ * user per local week, so re-running the same hour (or the whole week) is safe
+ *
+ * Uses the service role client: the runner operates across all users
+ */
+export class ScheduledReportsService {
+  /**
+   * Initialize service with Supabase client
+   * @param adminClient - Admin Supabase client (bypasses RLS; runner is cross-user)
+   */
+  constructor(private adminClient: SupabaseClient<Database> = supabaseClient) {}
+
+  /**
+   * Generate scheduled reports and deliveries for every user due at `now`
+   *
+   * Per user:
+   * 1. Skip unless local day/hour matches preferences
+   * 2. Skip report generation if a scheduled report already exists for the local week
+   * 3. Otherwise generate the report from the user's active categories
+   * 4. Ensure a delivery exists for every preferred channel (email only if subscribed)
+   *
+   * Failures for one user are recorded and do not stop the run
+   *
+   * @param now - Instant to evaluate schedules against (default: current time)
+   * @returns WeeklyReportRunResultDto with counts and per-user failures
+   * @throws WeeklyRunInProgressError if another run is active in this process
+   */
+  async runWeekly(now: Date = new Date()): Promise<WeeklyReportRunResultDto> {
+    if (runInProgress) {
+      throw new WeeklyRunInProgressError();
+    }
+    runInProgress = true;
+
+    const startedAt = new Date().toISOString();
+    const result: WeeklyReportRunResultDto = {
+      now: now.toISOString(),
+      started_at: startedAt,
+      finished_at: startedAt,
+      due_users: 0,
+      reports_generated: 0,
+      reports_skipped: 0,
+      deliveries_created: 0,
+      failures: [],
+    };
+
+    try {
+      const preferences = await this.fetchSchedulePreferences();
+
+      for (const prefs of preferences) {
+        const local = this.getLocalTime(now, prefs.timezone);
+        if (local.dow !== prefs.report_dow || local.hour !== prefs.report_hour) {
+          continue;
+        }
+        result.due_users++;
+
+        try {
+          const { reportId, generated } = await this.ensureWeeklyReport(prefs, local);
+          if (generated) {
+            result.reports_generated++;
+          } else {
+            result.reports_skipped++;
+          }
+          result.deliveries_created += await this.ensureDeliveries(prefs, reportId);
+        } catch (err) {
+          const message = err instanceof Error ? err.message : String(err);
+          console.error(`[ERROR] Scheduled report failed for user ${prefs.user_id}: ${message}`);
+          result.failures.push({ user_id: prefs.user_id, error: message });
+        }
+      }
+    } finally {
+      runInProgress = false;
+      result.finished_at = new Date().toISOString();
+    }
+
+    console.log(
+      `[INFO] Weekly run at ${result.now}: ${result.due_users} due, ${result.reports_generated} generated, ` +
+        `${result.reports_skipped} skipped, ${result.deliveries_created} deliveries, ${result.failures.length} failed`
+    );
+
+    return result;
+  }
+
+  /**
+   * Return this local week's scheduled report, generating it if it does not exist yet
+   */
+  private async ensureWeeklyReport(
+    prefs: SchedulePreferences,
+    local: LocalTime
+  ): Promise<{ reportId: UUID; generated: boolean }> {
+    const weekStartLocal = this.getWeekStartDate(local);
+
+    const existingId = await this.findScheduledReport(prefs.user_id, weekStartLocal);
+    if (existingId) {
+      return { reportId: existingId, generated: false };
+    }
+
+    if (prefs.active_categories.length === 0) {
+      throw new Error('User has no active categories');
+    }
+
+    const weekEndLocal = this.addDays(weekStartLocal, 6);
+    const reportsService = new ReportsService(this.adminClient);
+
+    try {
+      const report = await reportsService.generateScheduledReport(
+        prefs.user_id,
+        prefs.active_categories,
+        {
+          weekStart: `${weekStartLocal}T00:00:00Z`,
+          weekEnd: `${weekEndLocal}T23:59:59Z`,
+          timezone: prefs.timezone,
+        }
+      );
+      return { reportId: report.id, generated: true };
+    } catch (err) {
+      // A concurrent run may have inserted the report first (DB enforces one per week)
+      const concurrentId = await this.findScheduledReport(prefs.user_id, weekStartLocal);
+      if (concurrentId) {
+        return { reportId: concurrentId, generated: false };
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Find the user's scheduled report for a local week (including soft-deleted ones)
+   */
+  private async findScheduledReport(userId: UUID, weekStartLocal: string): Promise<UUID | null> {
+    const { data, error } = await this.adminClient
+      .from('report_weeks')
+      .select('report_id')
+      .eq('user_id', userId)
+      .eq('generated_by', 'scheduled')
+      .eq('week_start_local', weekStartLocal)
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to check existing scheduled report: ${error.message}`);
+    }
+
+    return data?.report_id ?? null;
+  }
+
+  /**
+   * Create missing deliveries for the user's preferred channels
+   * in_app deliveries are available immediately (sent); email deliveries are queued
+   * for the delivery worker and skipped entirely when the user unsubscribed
+   *
+   * @returns Number of deliveries created
+   */
+  private async ensureDeliveries(prefs: SchedulePreferences, reportId: UUID): Promise<number> {
+    let created = 0;
+
+    for (const channel of prefs.preferred_delivery_channels) {
+      if (channel === 'email' && prefs.email_unsubscribed_at !== null) {
+        continue;
+      }
+
+      const now = new Date().toISOString();
+      const { error } = await this.adminClient.from('report_deliveries').insert({
+        report_id: reportId,
+        user_id: prefs.user_id,
+        channel,
+        status: channel === 'in_app' ? 'sent' : 'queued',
+        sent_at: channel === 'in_app' ? now : null,
+      });
+
+      if (error) {
+        // Unique (report_id, channel): delivery already exists from an earlier run
+        if (error.code === '23505') {
+          continue;
+        }
+        throw new Error(`Failed to create ${channel} delivery: ${error.message}`);
+      }
+
+      created++;
+    }
+
+    return created;
+  }
+
+  /**
+   * Load all preferences joined with profile timezone (paged scan)
+   */
+  private async fetchSchedulePreferences(): Promise<SchedulePreferences[]> {
+    const rows: SchedulePreferences[] = [];
+
+    for (let from = 0; ; from += SCAN_PAGE_SIZE) {
+      const { data, error } = await this.adminClient
+        .from('preferences')
+        .select(
+          'user_id, report_dow, report_hour, active_categories, preferred_delivery_channels, email_unsubscribed_at, profiles(timezone)'
+        )
+        .order('user_id')
+        .range(from, from + SCAN_PAGE_SIZE - 1);
+
+      if (error) {
+        console.error('ScheduledReportsService.fetchSchedulePreferences error:', error);
+        throw new Error(`Failed to fetch preferences: ${error.message}`);
+      }
+
+      for (const row of data || []) {
+        rows.push({
+          user_id: row.user_id,
+          report_dow: row.report_dow,
+          report_hour: row.report_hour,
+          active_categories: row.active_categories || [],
+          preferred_delivery_channels: row.preferred_delivery_channels || [],
+          email_unsubscribed_at: row.email_unsubscribed_at,
+          timezone: row.profiles?.timezone || 'UTC',
+        });
+      }
+
+      if (!data || data.length < SCAN_PAGE_SIZE) {
+        return rows;
+      }
+    }
+  }
+
+  /**
+   * Local date, day-of-week and hour of an instant in a timezone
+   */
+  private getLocalTime(now: Date, timezone: string): LocalTime {
+    const parts = Object.fromEntries(
+      new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        weekday: 'short',
+        hour: '2-digit',
+        hourCycle: 'h23',
+      })
+        .formatToParts(now)
+        .map((p) => [p.type, p.value])
+    );
+
+    const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+    return {
+      date: `${parts.year}-${parts.month}-${parts.day}`,
+      dow: weekdays.indexOf(parts.weekday),
+      hour: Number(parts.hour),
+    };
+  }
+
+  /**
+   * Monday (YYYY-MM-DD) of the local week containing the given local date
+   */
+  private getWeekStartDate(local: LocalTime): string {
+    const daysSinceMonday = local.dow === 0 ? 6 : local.dow - 1;
+    return this.addDays(local.date, -daysSinceMonday);
+  }
+
+  /**
+   * Add days to a calendar date (YYYY-MM-DD), independent of any timezone
+   */
+  private addDays(date: string, days: number): string {
+    const d = new Date(`${date}T00:00:00Z`);
+    d.setUTCDate(d.getUTCDate() + days);
+    return d.toISOString().slice(0, 10);
+  }
+}
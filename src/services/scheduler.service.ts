@@ -0,0 +1,109 @@
+import { ScheduledReportsService } from './scheduled-reports.service.js';
+import { RetentionService } from './retention.service.js';
+import { EmailDeliveryWorker } from './email-delivery-worker.service.js';
+import { reportJobRunner } from './report-job-runner.service.js';
+
+/**
+ * Job run by the in-process scheduler
+ * minute/hour are UTC; omitting hour runs the job every hour, omitting minute every minute
+ */
+export type ScheduledJob = {
+  name: string;
+  minute?: number;
+  hour?: number;
+  run: (now: Date) => Promise<unknown>;
+};
+
+/**
+ * Minimal in-process cron: checks registered jobs once per minute
+ *
+ * Intended for single-instance deployments; with several instances enable it on one of them
+ * (or call the /internal/cron/** routes from an external scheduler instead). A job that is
+ * still running when its next slot arrives is skipped rather than run twice
+ */
+export class JobScheduler {
+  private jobs: ScheduledJob[] = [];
+  private running = new Set<string>();
+  private timer: NodeJS.Timeout | null = null;
+
+  register(job: ScheduledJob): this {
+    this.jobs.push(job);
+    return this;
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    console.log(`[INFO] Scheduler started with jobs: ${this.jobs.map((j) => j.name).join(', ')}`);
+    this.scheduleNextTick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Align ticks to the start of each minute so jobs fire at :00 seconds
+   */
+  private scheduleNextTick(): void {
+    const delay = 60000 - (Date.now() % 60000);
+    this.timer = setTimeout(() => {
+      this.tick(new Date());
+      this.scheduleNextTick();
+    }, delay);
+  }
+
+  private tick(now: Date): void {
+    for (const job of this.jobs) {
+      const due =
+        (job.minute === undefined || now.getUTCMinutes() === job.minute) &&
+        (job.hour === undefined || now.getUTCHours() === job.hour);
+
+      if (!due) {
+        continue;
+      }
+
+      if (this.running.has(job.name)) {
+        console.warn(`[WARN] Scheduler skipped ${job.name}: previous run still in progress`);
+        continue;
+      }
+
+      this.running.add(job.name);
+      job
+        .run(now)
+        .catch((err) => console.error(`[ERROR] Scheduled job ${job.name} failed:`, err))
+        .finally(() => this.running.delete(job.name));
+    }
+  }
+}
+
+/**
+ * Build the scheduler with all background jobs of the API
+ */
+export function createJobScheduler(): JobScheduler {
+  return new JobScheduler()
+    .register({
+      name: 'weekly-reports',
+      minute: 0,
+      run: (now) => new ScheduledReportsService().runWeekly(now),
+    })
+    .register({
+      name: 'retention-cleanup',
+      minute: 0,
+      hour: 2,
+      run: (now) => new RetentionService().runCleanup(false, now),
+    })
+    .register({
+      name: 'email-deliveries',
+      run: (now) => new EmailDeliveryWorker().run(now),
+    })
+    .register({
+      name: 'stale-report-jobs',
+      minute: 30,
+      run: (now) => reportJobRunner.failStaleJobs(now),
+    });
+}
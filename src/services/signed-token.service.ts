@@ -0,0 +1,129 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import type { UUID } from '../types.js';
+
+/**
+ * What a token grants; a token signed for one purpose is rejected for any other
+ */
+export type SignedTokenPurpose = 'unsubscribe' | 'email_open';
+
+/**
+ * Verified token contents
+ */
+export type SignedTokenPayload = {
+  purpose: SignedTokenPurpose;
+  subject: UUID;
+  issuedAt: Date;
+  expiresAt: Date | null;
+};
+
+/**
+ * Custom error for tokens that are malformed, tampered with, expired or for another purpose
+ */
+export class InvalidSignedTokenError extends Error {
+  constructor(reason: string) {
+    super(`Invalid token: ${reason}`);
+    this.name = 'InvalidSignedTokenError';
+  }
+}
+
+type EncodedPayload = {
+  p: SignedTokenPurpose;
+  sub: UUID;
+  iat: number;
+  exp?: number;
+};
+
+/**
+ * SignedTokenService issues and verifies HMAC-SHA256 signed tokens for links sent by email
+ *
+ * Tokens are `<base64url payload>.<base64url signature>` and carry no secrets: they let an
+ * unauthenticated request act on one subject for one purpose (e.g. unsubscribing a user)
+ */
+export class SignedTokenService {
+  /**
+   * @param secret - HMAC key; rotating it invalidates every issued token
+   */
+  constructor(private readonly secret: string) {}
+
+  /**
+   * Issue a token
+   *
+   * @param purpose - What the token may be used for
+   * @param subject - UUID the token acts on (the user for 'unsubscribe', the delivery for 'email_open')
+   * @param ttlMs - Lifetime in milliseconds (default: no expiry)
+   */
+  sign(purpose: SignedTokenPurpose, subject: UUID, ttlMs?: number): string {
+    const issuedAt = Math.floor(Date.now() / 1000);
+    const payload: EncodedPayload = { p: purpose, sub: subject, iat: issuedAt };
+    if (ttlMs !== undefined) {
+      payload.exp = issuedAt + Math.ceil(ttlMs / 1000);
+    }
+
+    const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    return `${encoded}.${this.signature(encoded)}`;
+  }
+
+  /**
+   * Verify a token and return its contents
+   *
+   * @param purpose - Purpose the token must have been issued for
+   * @param token - Token as received
+   * @throws InvalidSignedTokenError if the token does not verify
+   */
+  verify(purpose: SignedTokenPurpose, token: string): SignedTokenPayload {
+    const [encoded, signature, ...rest] = token.split('.');
+    if (!encoded || !signature || rest.length > 0) {
+      throw new InvalidSignedTokenError('malformed');
+    }
+
+    const expected = Buffer.from(this.signature(encoded));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      throw new InvalidSignedTokenError('bad signature');
+    }
+
+    let payload: EncodedPayload;
+    try {
+      payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+    } catch {
+      throw new InvalidSignedTokenError('malformed');
+    }
+
+    if (payload.p !== purpose) {
+      throw new InvalidSignedTokenError('wrong purpose');
+    }
+    if (payload.exp !== undefined && payload.exp * 1000 < Date.now()) {
+      throw new InvalidSignedTokenError('expired');
+    }
+
+    return {
+      purpose: payload.p,
+      subject: payload.sub,
+      issuedAt: new Date(payload.iat * 1000),
+      expiresAt: payload.exp !== undefined ? new Date(payload.exp * 1000) : null,
+    };
+  }
+
+  private signature(encoded: string): string {
+    return createHmac('sha256', this.secret).update(encoded).digest('base64url');
+  }
+}
+
+let defaultService: SignedTokenService | null = null;
+
+/**
+ * Lazily created, process-wide token service
+ *
+ * Environment:
+ * - EMAIL_TOKEN_SECRET: HMAC key for links in emails (required, at least 32 characters)
+ */
+export function getSignedTokenService(): SignedTokenService {
+  if (!defaultService) {
+    const secret = process.env.EMAIL_TOKEN_SECRET;
+    if (!secret || secret.length < 32) {
+      throw new Error('EMAIL_TOKEN_SECRET env variable must be set to at least 32 characters');
+    }
+    defaultService = new SignedTokenService(secret);
+  }
+  return defaultService;
+}
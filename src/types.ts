@@ -35,7 +35,7 @@ export type ReportsSort = 'created_at_desc' | 'created_at_asc';
 
 // Narrowed enum aliases sourced from DB to ensure coupling to schema
 export type DeliveryChannel = Enums<'delivery_channel_type'>; // 'in_app' | 'email'
-export type DeliveryStatus = Enums<'delivery_status_type'>; // 'queued' | 'sent' | 'opened'
+export type DeliveryStatus = Enums<'delivery_status_type'>; // 'queued' | 'sent' | 'opened' | 'retrying' | 'failed' | 'bounced' | 'cancelled'
 export type GeneratedBy = Enums<'generated_by_type'>; // 'scheduled' | 'on_demand'
 
 // ==============
@@ -68,6 +68,21 @@ export type SignInResponseDto = {
   session: SignInSessionDto;
 };
 
+// session is null while the email address awaits confirmation
+export type SignUpResponseDto = {
+  user: SignInUserDto;
+  session: SignInSessionDto | null;
+};
+
+export type SignOutResponseDto = {
+  message: string;
+};
+
+// Same response whether or not an account exists for the address
+export type AccountEmailResponseDto = {
+  message: string;
+};
+
 // =========
 // Profiles
 // =========
@@ -104,6 +119,16 @@ export type UpdatePreferencesCommand = Required<
   preferred_delivery_channels: DeliveryChannel[];
 };
 
+// Unsubscribe links in report emails (unauthenticated, identified by a signed token)
+export type EmailSubscriptionStatusDto = {
+  email_unsubscribed_at: string | null;
+};
+
+export type UnsubscribeResponseDto = {
+  email_unsubscribed_at: string;
+  cancelled_deliveries: number;
+};
+
 // ===========
 // Categories
 // ===========
@@ -184,6 +209,67 @@ export type GenerateReportCommand = {
   include_categories: UUID[];
 };
 
+// ===========
+// Report Jobs
+// ===========
+
+export type ReportJobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export type ReportJobDto = Omit<Tables<'report_jobs'>, 'status'> & {
+  status: ReportJobStatus;
+};
+
+// Progress events of a report job, streamed over SSE (event name = type)
+export type ReportGenerationEventDto =
+  | {
+      type: 'job_status';
+      status: ReportJobStatus;
+      report_id: UUID | null;
+      error: ErrorResponseDto['error'] | null;
+    }
+  | { type: 'categories_validated'; categories: number }
+  | { type: 'weekly_limit_checked'; week_start: string; week_end: string }
+  | { type: 'notes_fetched'; count: number }
+  | { type: 'llm_token'; token: string }
+  | { type: 'report_saved'; report_id: UUID };
+
+// ===============
+// Prompt Versions
+// ===============
+
+export type PromptFeedbackStatsDto = {
+  count: number;
+  positive: number;
+  neutral: number;
+  negative: number;
+  average_rating: number | null;
+};
+
+export type PromptVersionDto = {
+  name: string;
+  version: string;
+  description: string;
+  is_default: boolean;
+  is_candidate: boolean;
+  candidate_percent: number;
+  reports_count: number;
+  feedback: PromptFeedbackStatsDto;
+};
+
+export type ListPromptVersionsResponseDto = {
+  items: PromptVersionDto[];
+};
+
+export type PromptVersionReportDto = Pick<
+  Tables<'reports'>,
+  'id' | 'user_id' | 'generated_by' | 'llm_model' | 'system_prompt_version' | 'created_at'
+> & {
+  rating: number | null;
+  comment: string | null;
+};
+
+export type ListPromptVersionReportsResponseDto = PaginatedResponse<PromptVersionReportDto>;
+
 // =================
 // Report Deliveries
 // =================
@@ -204,6 +290,23 @@ export type EmailDeliveryResponseDto = {
   delivery: Pick<ReportDeliveryDto, 'id' | 'status' | 'channel'>;
 };
 
+// Unopened in_app deliveries shown as a banner in the app
+export type InboxItemDto = Pick<
+  ReportDeliveryDto,
+  'id' | 'report_id' | 'status' | 'queued_at' | 'sent_at' | 'snoozed_until'
+> & {
+  report: Pick<ReportDto, 'id' | 'generated_by' | 'created_at'>;
+};
+
+export type InboxResponseDto = {
+  items: InboxItemDto[];
+  total: number;
+};
+
+export type SnoozeDeliveryCommand = {
+  until: string; // ISO datetime in the future, at most 7 days ahead
+};
+
 // ===============
 // Report Feedback
 // ===============
@@ -237,4 +340,70 @@ export type ListAnalyticsEventsQuery = {
 
 export type AnalyticsEventsListResponseDto = PaginatedResponse<AnalyticsEventDto>;
 
-export type AnalyticsEventResponseDto = Pick<AnalyticsEventDto, 'id'>;
+// id is null when the event was quarantined (schema registry mismatch)
+export type AnalyticsEventResponseDto = {
+  id: AnalyticsEventDto['id'] | null;
+  quarantined?: boolean;
+};
+
+// Batch ingestion: { events: [...] } answered with ids in request order
+export type RecordAnalyticsEventsBatchCommand = {
+  events: RecordAnalyticsEventCommand[];
+};
+
+export type AnalyticsEventsBatchResponseDto = {
+  ids: (AnalyticsEventDto['id'] | null)[];
+  quarantined: number;
+};
+
+// =============
+// Internal Jobs
+// =============
+
+export type WeeklyReportRunFailureDto = {
+  user_id: UUID;
+  error: string;
+};
+
+export type WeeklyReportRunResultDto = {
+  now: string;
+  started_at: string;
+  finished_at: string;
+  due_users: number;
+  reports_generated: number;
+  reports_skipped: number;
+  deliveries_created: number;
+  failures: WeeklyReportRunFailureDto[];
+};
+
+export type RetentionTableResultDto = {
+  table: string;
+  column: string;
+  cutoff: string;
+  rows: number; // deleted rows (dry run: rows that would be deleted)
+  artifacts: number; // removed PDF files (dry run: files that would be removed)
+  artifact_failures: number;
+};
+
+export type RetentionRunResultDto = {
+  run_id: UUID;
+  dry_run: boolean;
+  started_at: string;
+  finished_at: string;
+  tables: RetentionTableResultDto[];
+};
+
+export type RetentionRunDto = Tables<'retention_runs'>;
+
+export type ListRetentionRunsResponseDto = PaginatedResponse<RetentionRunDto>;
+
+export type EmailDeliveryRunResultDto = {
+  started_at: string;
+  finished_at: string;
+  processed: number;
+  sent: number;
+  retrying: number;
+  failed: number;
+  bounced: number;
+  cancelled: number;
+};
@@ -0,0 +1,128 @@
+import { z } from 'zod';
+import type { Json } from '../db/database.types.js';
+
+/**
+ * Most events accepted by one POST /api/analytics/events request
+ */
+export const MAX_ANALYTICS_BATCH_SIZE = 50;
+
+/**
+ * Largest accepted `properties` object, in bytes of serialized JSON
+ */
+export const MAX_ANALYTICS_PROPERTIES_BYTES = 4096;
+
+/**
+ * Schema for validating one analytics event of POST /api/analytics/events
+ *
+ * Validates:
+ * - event_name: required snake_case name (e.g. note_created), max 64 characters
+ * - source: optional, 'web' only; 'api' events are recorded by the server from domain events
+ * - schema_version: optional positive integer (default: latest registered version)
+ * - properties: optional JSON object (default: {}), at most 4 KB serialized
+ *
+ * This checks the envelope only; event names and properties are checked against the
+ * analytics schema registry by AnalyticsService. user_id, source and created_at are assigned
+ * by the server
+ */
+export const RecordAnalyticsEventCommandSchema = z.object({
+  event_name: z.string().regex(/^[a-z][a-z0-9_.]{0,63}$/, {
+    message:
+      'event_name must start with a lowercase letter and contain only a-z, 0-9, "_" or "." (max 64 characters)',
+  }),
+  source: z
+    .literal('web', {
+      errorMap: () => ({ message: 'source must be "web" (api events are recorded by the server)' }),
+    })
+    .optional()
+    .default('web'),
+  schema_version: z
+    .number()
+    .int({ message: 'schema_version must be an integer' })
+    .min(1, { message: 'schema_version must be between 1 and 32767' })
+    .max(32767, { message: 'schema_version must be between 1 and 32767' })
+    .optional(),
+  properties: z
+    .record(z.custom<Json>(), { invalid_type_error: 'properties must be an object' })
+    .refine((val) => JSON.stringify(val).length <= MAX_ANALYTICS_PROPERTIES_BYTES, {
+      message: `properties must be at most ${MAX_ANALYTICS_PROPERTIES_BYTES} bytes of JSON`,
+    })
+    .optional()
+    .default({}),
+});
+
+export type RecordAnalyticsEventCommand = z.infer<typeof RecordAnalyticsEventCommandSchema>;
+
+/**
+ * Schema for validating a batch body of POST /api/analytics/events: { events: [...] }
+ */
+export const RecordAnalyticsEventsBatchCommandSchema = z.object({
+  events: z
+    .array(RecordAnalyticsEventCommandSchema, {
+      invalid_type_error: 'events must be an array',
+    })
+    .min(1, { message: 'events must contain at least one event' })
+    .max(MAX_ANALYTICS_BATCH_SIZE, {
+      message: `events must contain at most ${MAX_ANALYTICS_BATCH_SIZE} events`,
+    }),
+});
+
+export type RecordAnalyticsEventsBatchCommand = z.infer<
+  typeof RecordAnalyticsEventsBatchCommandSchema
+>;
+
+/**
+ * Schema for validating GET /api/analytics/events query parameters
+ *
+ * Handles:
+ * - event_name: optional exact event name filter
+ * - from: optional ISO 8601 datetime, events created at or after it
+ * - to: optional ISO 8601 datetime, events created at or before it
+ * - limit: pagination limit 1-100 (default: 20)
+ * - offset: pagination offset >=0 (default: 0)
+ *
+ * Query parameters come as strings from URL, so we coerce/transform them
+ */
+export const ListAnalyticsEventsQuerySchema = z
+  .object({
+    event_name: z
+      .string()
+      .min(1, { message: 'event_name must not be empty' })
+      .max(64, { message: 'event_name must be at most 64 characters' })
+      .optional(),
+
+    from: z
+      .string()
+      .datetime({ offset: true, message: 'from must be a valid ISO 8601 datetime string' })
+      .optional(),
+
+    to: z
+      .string()
+      .datetime({ offset: true, message: 'to must be a valid ISO 8601 datetime string' })
+      .optional(),
+
+    limit: z
+      .union([z.number(), z.string()])
+      .transform((val) => (typeof val === 'string' ? parseInt(val, 10) : val))
+      .refine((val) => Number.isInteger(val) && val >= 1 && val <= 100, {
+        message: 'limit must be an integer between 1 and 100',
+      })
+      .optional()
+      .default(20)
+      .transform((val) => (typeof val === 'string' ? parseInt(val, 10) : val)),
+
+    offset: z
+      .union([z.number(), z.string()])
+      .transform((val) => (typeof val === 'string' ? parseInt(val, 10) : val))
+      .refine((val) => Number.isInteger(val) && val >= 0, {
+        message: 'offset must be an integer >= 0',
+      })
+      .optional()
+      .default(0)
+      .transform((val) => (typeof val === 'string' ? parseInt(val, 10) : val)),
+  })
+  .refine((data) => !data.from || !data.to || new Date(data.from) <= new Date(data.to), {
+    message: 'to must be greater than or equal to from',
+    path: ['to'],
+  });
+
+export type ListAnalyticsEventsQuery = z.infer<typeof ListAnalyticsEventsQuerySchema>;
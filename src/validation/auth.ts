@@ -1,5 +1,6 @@
 // Zod schema for validating Authorization header in the format: "Bearer <jwt>"
 import { z } from 'zod';
+import { TimezoneSchema } from './profile.js';
 
 export const AuthHeaderSchema = z
   .string({ required_error: 'Authorization header is required' })
@@ -21,6 +22,62 @@ export const SignInRequestSchema = z.object({
 
 export type SignInRequest = z.infer<typeof SignInRequestSchema>;
 
+// Zod schema for a password being set (sign-up, password reset)
+const NewPasswordSchema = z
+  .string({ required_error: 'password is required' })
+  .min(8, 'password must be at least 8 characters')
+  .max(72, 'password must not exceed 72 characters');
+
+// Zod schema for sign-up request (timezone falls back to the Accept-Timezone header, then UTC)
+export const SignUpRequestSchema = z.object({
+  email: z
+    .string({ required_error: 'email is required' })
+    .email('email must be a valid email address'),
+  password: NewPasswordSchema,
+  timezone: TimezoneSchema.optional(),
+});
+
+export type SignUpRequest = z.infer<typeof SignUpRequestSchema>;
+
+// Zod schema for sign-out request (body optional): which sessions of the user to revoke
+export const SignOutRequestSchema = z.object({
+  scope: z
+    .enum(['local', 'global', 'others'], {
+      errorMap: () => ({ message: "scope must be one of 'local', 'global' or 'others'" }),
+    })
+    .default('local'),
+});
+
+export type SignOutRequest = z.infer<typeof SignOutRequestSchema>;
+
+// Zod schema for refresh-token exchange
+export const RefreshSessionRequestSchema = z.object({
+  refresh_token: z
+    .string({ required_error: 'refresh_token is required' })
+    .min(1, 'refresh_token must not be empty'),
+});
+
+export type RefreshSessionRequest = z.infer<typeof RefreshSessionRequestSchema>;
+
+// Zod schema for requests naming an account by email (forgot password, verification resend)
+export const AccountEmailRequestSchema = z.object({
+  email: z
+    .string({ required_error: 'email is required' })
+    .email('email must be a valid email address'),
+});
+
+export type AccountEmailRequest = z.infer<typeof AccountEmailRequestSchema>;
+
+// Zod schema for password reset with the token_hash from the recovery email link
+export const ResetPasswordRequestSchema = z.object({
+  token_hash: z
+    .string({ required_error: 'token_hash is required' })
+    .min(1, 'token_hash must not be empty'),
+  password: NewPasswordSchema,
+});
+
+export type ResetPasswordRequest = z.infer<typeof ResetPasswordRequestSchema>;
+
 // Zod schema for creating a note
 export const CreateNoteRequestSchema = z.object({
   category_id: z
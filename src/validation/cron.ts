@@ -0,0 +1,70 @@
+import { z } from 'zod';
+
+/**
+ * Schema for validating POST /internal/cron/reports/weekly-run request body
+ *
+ * Handles:
+ * - now: optional ISO datetime to evaluate schedules against (default: current time)
+ *   Useful for replaying a missed hour; re-running is safe because at most one
+ *   scheduled report is generated per user per local week
+ */
+export const WeeklyRunCommandSchema = z
+  .object({
+    now: z
+      .string()
+      .datetime({ offset: true, message: 'now must be a valid ISO datetime string' })
+      .optional(),
+  })
+  .strict();
+
+export type WeeklyRunCommand = z.infer<typeof WeeklyRunCommandSchema>;
+
+/**
+ * Schema for validating POST /internal/cron/retention/cleanup request body
+ *
+ * Handles:
+ * - dry_run: optional boolean (default: false); only count rows and files that would be deleted
+ */
+export const RetentionCleanupCommandSchema = z
+  .object({
+    dry_run: z
+      .boolean({ invalid_type_error: 'dry_run must be a boolean' })
+      .optional()
+      .default(false),
+  })
+  .strict();
+
+export type RetentionCleanupCommand = z.infer<typeof RetentionCleanupCommandSchema>;
+
+/**
+ * Schema for validating GET /internal/retention/runs query parameters
+ *
+ * Handles:
+ * - limit: pagination limit 1-100 (default: 20)
+ * - offset: pagination offset >=0 (default: 0)
+ *
+ * Query parameters come as strings from URL, so we coerce/transform them
+ */
+export const ListRetentionRunsQuerySchema = z.object({
+  limit: z
+    .union([z.number(), z.string()])
+    .transform((val) => (typeof val === 'string' ? parseInt(val, 10) : val))
+    .refine((val) => Number.isInteger(val) && val >= 1 && val <= 100, {
+      message: 'limit must be an integer between 1 and 100',
+    })
+    .optional()
+    .default(20)
+    .transform((val) => (typeof val === 'string' ? parseInt(val, 10) : val)),
+
+  offset: z
+    .union([z.number(), z.string()])
+    .transform((val) => (typeof val === 'string' ? parseInt(val, 10) : val))
+    .refine((val) => Number.isInteger(val) && val >= 0, {
+      message: 'offset must be an integer >= 0',
+    })
+    .optional()
+    .default(0)
+    .transform((val) => (typeof val === 'string' ? parseInt(val, 10) : val)),
+});
+
+export type ListRetentionRunsQuery = z.infer<typeof ListRetentionRunsQuerySchema>;
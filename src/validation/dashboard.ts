@@ -0,0 +1,23 @@
+import { z } from 'zod';
+import { TimezoneSchema } from './profile.js';
+
+/**
+ * Schema for validating GET /api/dashboard query parameters
+ *
+ * Handles:
+ * - timezone: optional IANA timezone for local days (default: profile timezone)
+ * - since: optional start of the counted period, a local date (YYYY-MM-DD, midnight in
+ *   the timezone) or an ISO datetime with offset (default: 4 weeks ago)
+ */
+export const DashboardQuerySchema = z.object({
+  timezone: TimezoneSchema.optional(),
+  since: z
+    .union([z.string().date(), z.string().datetime({ offset: true })], {
+      errorMap: () => ({
+        message: 'since must be a date (YYYY-MM-DD) or an ISO datetime',
+      }),
+    })
+    .optional(),
+});
+
+export type DashboardQuery = z.infer<typeof DashboardQuerySchema>;
@@ -0,0 +1,35 @@
+import { z } from 'zod';
+
+/**
+ * Schema for validating GET /api/email-tracking/* query parameters
+ *
+ * Handles:
+ * - token: required signed tracking token from the email
+ */
+export const EmailTrackingQuerySchema = z.object({
+  token: z
+    .string({ required_error: 'token is required' })
+    .min(1, { message: 'token is required' })
+    .max(1000, { message: 'token is too long' }),
+});
+
+export type EmailTrackingQuery = z.infer<typeof EmailTrackingQuerySchema>;
+
+/**
+ * Schema for validating the rating of GET /api/email-tracking/report (emoji feedback buttons)
+ *
+ * Handles:
+ * - rating: optional feedback rating ('-1', '0' or '1') passed on to the app
+ *
+ * Parsed separately from the token so an invalid rating never prevents recording the open
+ */
+export const EmailFeedbackRatingQuerySchema = z.object({
+  rating: z
+    .enum(['-1', '0', '1'], {
+      errorMap: () => ({ message: "rating must be one of: '-1', '0', '1'" }),
+    })
+    .transform((val) => Number(val) as -1 | 0 | 1)
+    .optional(),
+});
+
+export type EmailFeedbackRatingQuery = z.infer<typeof EmailFeedbackRatingQuerySchema>;
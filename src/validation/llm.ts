@@ -0,0 +1,27 @@
+import { z } from 'zod';
+
+/**
+ * Schema for validating the structured report content returned by an LLM provider
+ *
+ * Handles:
+ * - summary: required non-empty overview of the week
+ * - categories: per-category summaries (defaults to empty list if omitted)
+ * - recommendations: list of suggestions for the coming week (defaults to empty list)
+ *
+ * LLM output is untrusted input, so it is validated before it is rendered or stored
+ */
+export const LlmReportOutputSchema = z.object({
+  summary: z.string().trim().min(1, { message: 'summary must not be empty' }),
+  categories: z
+    .array(
+      z.object({
+        category_id: z.string(),
+        name: z.string(),
+        summary: z.string(),
+      })
+    )
+    .default([]),
+  recommendations: z.array(z.string().trim().min(1)).default([]),
+});
+
+export type LlmReportOutput = z.infer<typeof LlmReportOutputSchema>;
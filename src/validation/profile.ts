@@ -806,6 +806,16 @@ const VALID_TIMEZONES = [
   'Arctic/Longyearbyen',
 ];
 
+/**
+ * Schema for an IANA timezone accepted for profiles
+ */
+export const TimezoneSchema = z
+  .string({ required_error: 'timezone is required' })
+  .min(1, { message: 'timezone cannot be empty' })
+  .refine((tz) => VALID_TIMEZONES.includes(tz), {
+    message: 'timezone must be a valid IANA timezone',
+  });
+
 /**
  * Schema for updating user profile
  * Validates the timezone field with appropriate constraints and custom error messages
@@ -815,12 +825,7 @@ const VALID_TIMEZONES = [
  */
 export const UpdateProfileCommandSchema = z
   .object({
-    timezone: z
-      .string({ required_error: 'timezone is required' })
-      .min(1, { message: 'timezone cannot be empty' })
-      .refine((tz) => VALID_TIMEZONES.includes(tz), {
-        message: 'timezone must be a valid IANA timezone',
-      }),
+    timezone: TimezoneSchema,
   })
   .strict();
 
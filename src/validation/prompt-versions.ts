@@ -0,0 +1,49 @@
+import { z } from 'zod';
+
+/**
+ * Schema for validating GET /internal/prompt-versions/{version}/reports path parameters
+ *
+ * Handles:
+ * - version: prompt version label as stored in reports.system_prompt_version (e.g. 'v1.0')
+ */
+export const PromptVersionParamSchema = z.object({
+  version: z
+    .string()
+    .min(1, { message: 'version must not be empty' })
+    .max(50, { message: 'version must be at most 50 characters' }),
+});
+
+export type PromptVersionParam = z.infer<typeof PromptVersionParamSchema>;
+
+/**
+ * Schema for validating GET /internal/prompt-versions/{version}/reports query parameters
+ *
+ * Handles:
+ * - limit: pagination limit 1-100 (default: 20)
+ * - offset: pagination offset >=0 (default: 0)
+ *
+ * Query parameters come as strings from URL, so we coerce/transform them
+ */
+export const ListPromptVersionReportsQuerySchema = z.object({
+  limit: z
+    .union([z.number(), z.string()])
+    .transform((val) => (typeof val === 'string' ? parseInt(val, 10) : val))
+    .refine((val) => Number.isInteger(val) && val >= 1 && val <= 100, {
+      message: 'limit must be an integer between 1 and 100',
+    })
+    .optional()
+    .default(20)
+    .transform((val) => (typeof val === 'string' ? parseInt(val, 10) : val)),
+
+  offset: z
+    .union([z.number(), z.string()])
+    .transform((val) => (typeof val === 'string' ? parseInt(val, 10) : val))
+    .refine((val) => Number.isInteger(val) && val >= 0, {
+      message: 'offset must be an integer >= 0',
+    })
+    .optional()
+    .default(0)
+    .transform((val) => (typeof val === 'string' ? parseInt(val, 10) : val)),
+});
+
+export type ListPromptVersionReportsQuery = z.infer<typeof ListPromptVersionReportsQuerySchema>;
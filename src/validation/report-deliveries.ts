@@ -6,7 +6,7 @@ import { z } from 'zod';
  * Handles:
  * - report_id: optional UUID to filter by specific report
  * - channel: optional enum ('in_app' or 'email')
- * - status: optional enum ('queued', 'sent', or 'opened')
+ * - status: optional enum ('queued', 'sent', 'opened', 'retrying', 'failed', 'bounced', or 'cancelled')
  * - limit: pagination limit 1-100 (default: 20)
  * - offset: pagination offset >=0 (default: 0)
  *
@@ -24,9 +24,10 @@ export const ListReportDeliveriesQuerySchema = z.object({
     .optional(),
 
   status: z
-    .enum(['queued', 'sent', 'opened'], {
+    .enum(['queued', 'sent', 'opened', 'retrying', 'failed', 'bounced', 'cancelled'], {
       errorMap: () => ({
-        message: "status must be one of: 'queued', 'sent', 'opened'",
+        message:
+          "status must be one of: 'queued', 'sent', 'opened', 'retrying', 'failed', 'bounced', 'cancelled'",
       }),
     })
     .optional(),
@@ -65,3 +66,42 @@ export const MarkOpenedParamSchema = z.object({
 });
 
 export type MarkOpenedParam = z.infer<typeof MarkOpenedParamSchema>;
+
+/**
+ * Schema for validating /api/report-deliveries/{id}/dismiss and /snooze path parameter
+ *
+ * Handles:
+ * - id: required UUID of the in_app report delivery
+ */
+export const ReportDeliveryIdParamSchema = z.object({
+  id: z.string().uuid({ message: 'Delivery ID must be a valid UUID' }),
+});
+
+export type ReportDeliveryIdParam = z.infer<typeof ReportDeliveryIdParamSchema>;
+
+/**
+ * Maximum snooze length for inbox deliveries
+ */
+const MAX_SNOOZE_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Schema for validating POST /api/report-deliveries/{id}/snooze request body
+ *
+ * Handles:
+ * - until: required ISO datetime in the future, at most 7 days ahead
+ */
+export const SnoozeDeliveryCommandSchema = z
+  .object({
+    until: z
+      .string({ required_error: 'until is required' })
+      .datetime({ offset: true, message: 'until must be a valid ISO datetime string' })
+      .refine((val) => new Date(val).getTime() > Date.now(), {
+        message: 'until must be in the future',
+      })
+      .refine((val) => new Date(val).getTime() <= Date.now() + MAX_SNOOZE_MS, {
+        message: 'until must be at most 7 days ahead',
+      }),
+  })
+  .strict();
+
+export type SnoozeDeliveryCommandInput = z.infer<typeof SnoozeDeliveryCommandSchema>;
@@ -0,0 +1,13 @@
+import { z } from 'zod';
+
+/**
+ * Schema for validating GET /api/report-jobs/{id} path parameters
+ *
+ * Handles:
+ * - id: required UUID string for the report job
+ */
+export const ReportJobIdParamSchema = z.object({
+  id: z.string().uuid({ message: 'Report job ID must be a valid UUID' }),
+});
+
+export type ReportJobIdParam = z.infer<typeof ReportJobIdParamSchema>;
@@ -111,3 +111,44 @@ export const DeleteReportParamSchema = z.object({
 });
 
 export type DeleteReportParam = z.infer<typeof DeleteReportParamSchema>;
+
+/**
+ * Schema for validating GET /api/reports/{id}/email-preview path parameters
+ *
+ * Handles:
+ * - id: required UUID string for the report to preview
+ */
+export const ReportEmailPreviewParamSchema = z.object({
+  id: z.string().uuid({ message: 'Report ID must be a valid UUID' }),
+});
+
+export type ReportEmailPreviewParam = z.infer<typeof ReportEmailPreviewParamSchema>;
+
+/**
+ * Schema for validating GET /api/reports/{id}/pdf path parameters
+ *
+ * Handles:
+ * - id: required UUID string for the report to download
+ */
+export const ReportPdfParamSchema = z.object({
+  id: z.string().uuid({ message: 'Report ID must be a valid UUID' }),
+});
+
+export type ReportPdfParam = z.infer<typeof ReportPdfParamSchema>;
+
+/**
+ * Schema for validating GET /api/reports/{id}/email-preview query parameters
+ *
+ * Handles:
+ * - format: optional 'html' (default, rendered page), 'text' (plain-text alternative)
+ *   or 'json' (subject, html and text)
+ */
+export const ReportEmailPreviewQuerySchema = z.object({
+  format: z
+    .enum(['html', 'text', 'json'], {
+      errorMap: () => ({ message: "format must be one of: 'html', 'text', 'json'" }),
+    })
+    .default('html'),
+});
+
+export type ReportEmailPreviewQuery = z.infer<typeof ReportEmailPreviewQuerySchema>;
@@ -0,0 +1,16 @@
+import { z } from 'zod';
+
+/**
+ * Schema for validating GET/POST /api/unsubscribe query parameters
+ *
+ * Handles:
+ * - token: required signed unsubscribe token from the email link
+ */
+export const UnsubscribeQuerySchema = z.object({
+  token: z
+    .string({ required_error: 'token is required' })
+    .min(1, { message: 'token is required' })
+    .max(1000, { message: 'token is too long' }),
+});
+
+export type UnsubscribeQuery = z.infer<typeof UnsubscribeQuerySchema>;
@@ -0,0 +1,25 @@
+-- Create retention_runs table logging every data retention cleanup run
+-- Purpose: Prove that the 6-month retention policy (PRD US-017) actually executed
+-- Written only by the backend with the service role key
+
+CREATE TABLE IF NOT EXISTS public.retention_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  finished_at TIMESTAMPTZ,
+  dry_run BOOLEAN NOT NULL DEFAULT false,
+  status TEXT NOT NULL DEFAULT 'running',
+  -- Per-table results: [{ "table": "notes", "cutoff": "...", "deleted": 10, ... }]
+  results JSONB NOT NULL DEFAULT '[]'::jsonb,
+  error TEXT,
+
+  CONSTRAINT retention_runs_status_check
+    CHECK (status IN ('running', 'succeeded', 'failed'))
+);
+
+-- Create index for listing the most recent runs
+CREATE INDEX IF NOT EXISTS idx_retention_runs_started_at
+  ON public.retention_runs(started_at DESC);
+
+-- Enable Row Level Security (RLS)
+-- No policies: only the service role (which bypasses RLS) can read or write run logs
+ALTER TABLE public.retention_runs ENABLE ROW LEVEL SECURITY;
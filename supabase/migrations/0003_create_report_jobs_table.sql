@@ -0,0 +1,53 @@
+-- Create report_jobs table for asynchronous on-demand report generation
+-- Purpose: POST /api/reports/generate enqueues a job and returns 202 Accepted;
+-- clients poll GET /api/report-jobs/{id} until the job succeeds or fails
+
+CREATE TABLE IF NOT EXISTS public.report_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued',
+  include_categories UUID[] NOT NULL,
+  idempotency_key TEXT,
+  report_id UUID,
+  error_code TEXT,
+  error_message TEXT,
+  error_details JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  started_at TIMESTAMPTZ,
+  finished_at TIMESTAMPTZ,
+
+  -- Foreign key constraints
+  CONSTRAINT fk_report_jobs_user_id
+    FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE,
+  CONSTRAINT fk_report_jobs_report_id
+    FOREIGN KEY (report_id) REFERENCES public.reports(id) ON DELETE SET NULL,
+
+  CONSTRAINT report_jobs_status_check
+    CHECK (status IN ('queued', 'running', 'succeeded', 'failed'))
+);
+
+-- One live job per Idempotency-Key: retrying a request returns the existing job,
+-- while a failed job does not block a retry with the same key
+CREATE UNIQUE INDEX IF NOT EXISTS idx_report_jobs_user_idempotency_key
+  ON public.report_jobs(user_id, idempotency_key)
+  WHERE idempotency_key IS NOT NULL AND status <> 'failed';
+
+-- Create index for the runner picking up unfinished jobs after a restart
+CREATE INDEX IF NOT EXISTS idx_report_jobs_status_created_at
+  ON public.report_jobs(status, created_at)
+  WHERE status IN ('queued', 'running');
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.report_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policy: Users can only see their own jobs
+CREATE POLICY "Users can view their own report jobs"
+  ON public.report_jobs FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Create RLS policy: Users can only enqueue jobs for themselves
+CREATE POLICY "Users can insert their own report jobs"
+  ON public.report_jobs FOR INSERT
+  WITH CHECK (auth.uid() = user_id AND status = 'queued');
+
+-- Note: status transitions are performed by the backend job runner with the service role key
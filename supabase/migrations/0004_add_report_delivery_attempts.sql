@@ -0,0 +1,18 @@
+-- Add retry bookkeeping to report_deliveries for the email delivery worker
+-- Purpose: queued email deliveries are sent by the backend worker; failed sends are
+-- retried with exponential backoff and the last failure is recorded on the row
+-- next_attempt_at: NULL = due now, 'infinity' = given up (no further attempts)
+
+ALTER TABLE public.report_deliveries
+  ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS last_attempt_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS last_error TEXT;
+
+ALTER TABLE public.report_deliveries
+  ADD CONSTRAINT report_deliveries_attempts_check CHECK (attempts >= 0);
+
+-- Create index for the worker picking up due email deliveries
+CREATE INDEX IF NOT EXISTS idx_report_deliveries_email_due
+  ON public.report_deliveries(next_attempt_at NULLS FIRST, queued_at)
+  WHERE channel = 'email' AND status = 'queued';
@@ -0,0 +1,18 @@
+-- Extend delivery_status_type with the email delivery failure lifecycle
+-- retrying: a send attempt failed, another one is scheduled (next_attempt_at)
+-- failed:   attempts exhausted or the message can never be sent
+-- bounced:  the recipient address was rejected (SMTP 5xx)
+--
+-- Valid transitions are enforced by ReportDeliveriesService:
+--   queued   -> sent | retrying | failed | bounced | opened (in-app)
+--   retrying -> sent | retrying | failed | bounced
+--   sent     -> opened | bounced
+--   failed   -> queued (re-send)
+--   bounced  -> queued (re-send)
+--
+-- Note: new enum values cannot be used in the transaction that adds them,
+-- so existing rows are migrated in 0006
+
+ALTER TYPE public.delivery_status_type ADD VALUE IF NOT EXISTS 'retrying';
+ALTER TYPE public.delivery_status_type ADD VALUE IF NOT EXISTS 'failed';
+ALTER TYPE public.delivery_status_type ADD VALUE IF NOT EXISTS 'bounced';
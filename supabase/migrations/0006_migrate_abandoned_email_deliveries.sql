@@ -0,0 +1,17 @@
+-- Move email deliveries the worker gave up on (queued with next_attempt_at = 'infinity',
+-- see 0004) to the explicit 'failed' status; deliveries waiting for a retry become 'retrying'
+
+UPDATE public.report_deliveries
+  SET status = 'failed', next_attempt_at = NULL, updated_at = now()
+  WHERE channel = 'email' AND status = 'queued' AND next_attempt_at = 'infinity';
+
+UPDATE public.report_deliveries
+  SET status = 'retrying', updated_at = now()
+  WHERE channel = 'email' AND status = 'queued' AND attempts > 0;
+
+-- Replace the worker index: due deliveries are now queued or retrying
+DROP INDEX IF EXISTS public.idx_report_deliveries_email_due;
+
+CREATE INDEX IF NOT EXISTS idx_report_deliveries_email_due
+  ON public.report_deliveries(next_attempt_at NULLS FIRST, queued_at)
+  WHERE channel = 'email' AND status IN ('queued', 'retrying');
@@ -0,0 +1,9 @@
+-- Add 'cancelled' to delivery_status_type
+-- cancelled: the user unsubscribed from email before the delivery was sent
+--
+-- Additional transitions enforced by ReportDeliveriesService:
+--   queued    -> cancelled
+--   retrying  -> cancelled
+--   cancelled -> queued (re-send after resubscribing)
+
+ALTER TYPE public.delivery_status_type ADD VALUE IF NOT EXISTS 'cancelled';
@@ -0,0 +1,13 @@
+-- Add in-app banner state to report_deliveries
+-- Purpose: unopened in_app deliveries are shown as a banner (inbox); the user can hide one
+-- for good (dismissed_at) or until a given time (snoozed_until) without opening the report.
+-- Neither changes the delivery status: only opening sets opened_at
+
+ALTER TABLE public.report_deliveries
+  ADD COLUMN IF NOT EXISTS dismissed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS snoozed_until TIMESTAMPTZ;
+
+-- Create index for the inbox (unopened, not dismissed in_app deliveries per user)
+CREATE INDEX IF NOT EXISTS idx_report_deliveries_inbox
+  ON public.report_deliveries(user_id, created_at DESC)
+  WHERE channel = 'in_app' AND opened_at IS NULL AND dismissed_at IS NULL;
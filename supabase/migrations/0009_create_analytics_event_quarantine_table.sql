@@ -0,0 +1,42 @@
+-- Create analytics_event_quarantine table holding client analytics events that failed
+-- validation against the event schema registry (unknown event name/schema_version or
+-- properties not matching the schema)
+-- Purpose: keep invalid events for inspection instead of dropping them, without letting
+-- them into analytics_events. Used when ANALYTICS_INVALID_EVENTS=quarantine
+-- Retention: 6 months, like analytics_events (PRD US-017)
+
+CREATE TABLE IF NOT EXISTS public.analytics_event_quarantine (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID NOT NULL,
+  event_name TEXT NOT NULL,
+  source TEXT NOT NULL,
+  schema_version SMALLINT,
+  properties JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- 'unknown_event', 'unknown_schema_version' or 'invalid_properties'
+  reason TEXT NOT NULL,
+  -- Field-level validation errors: { "properties.category_id": "Invalid uuid" }
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  CONSTRAINT fk_analytics_event_quarantine_user_id
+    FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE,
+  CONSTRAINT analytics_event_quarantine_reason_check
+    CHECK (reason IN ('unknown_event', 'unknown_schema_version', 'invalid_properties'))
+);
+
+-- Create index for reviewing quarantined events per event name
+CREATE INDEX IF NOT EXISTS idx_analytics_event_quarantine_event_created_at
+  ON public.analytics_event_quarantine(event_name, created_at DESC);
+
+-- Create index for retention cleanup
+CREATE INDEX IF NOT EXISTS idx_analytics_event_quarantine_created_at
+  ON public.analytics_event_quarantine(created_at);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.analytics_event_quarantine ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policy: Users can only quarantine events of their own
+-- (no SELECT policy: quarantined events are reviewed with the service role)
+CREATE POLICY "Users can insert their own quarantined analytics events"
+  ON public.analytics_event_quarantine FOR INSERT
+  WITH CHECK (auth.uid() = user_id);